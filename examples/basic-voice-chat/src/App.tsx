@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { useGeminiLive } from 'gemini-live-react';
+import { useGeminiLive, useAudioLevels, type UseGeminiLiveReturn } from 'gemini-live-react';
 
 // Replace with your proxy URL
 const PROXY_URL = 'wss://your-project.supabase.co/functions/v1/gemini-live-proxy';
@@ -7,6 +7,12 @@ const PROXY_URL = 'wss://your-project.supabase.co/functions/v1/gemini-live-proxy
 export default function App() {
   const [proxyUrl, setProxyUrl] = useState(PROXY_URL);
 
+  const live = useGeminiLive({
+    proxyUrl,
+    // Assumes a proxy deployed with PROXY_AUTH_MODE=none (see README). With auth
+    // on, pass getAuthToken returning the signed-in user's Supabase access token.
+    onError: (err) => console.error('Gemini error:', err),
+  });
   const {
     connect,
     disconnect,
@@ -17,10 +23,7 @@ export default function App() {
     isMuted,
     setMuted,
     error,
-  } = useGeminiLive({
-    proxyUrl,
-    onError: (err) => console.error('Gemini error:', err),
-  });
+  } = live;
 
   return (
     <div style={styles.container}>
@@ -102,6 +105,9 @@ export default function App() {
         )}
       </div>
 
+      {/* Audio levels (re-renders only the meters) */}
+      {isConnected && <LevelMeters live={live} />}
+
       {/* Transcript */}
       <div style={styles.transcriptContainer}>
         <h2 style={styles.transcriptTitle}>Conversation</h2>
@@ -134,6 +140,33 @@ export default function App() {
   );
 }
 
+function LevelMeters({ live }: { live: UseGeminiLiveReturn }) {
+  const { input, output } = useAudioLevels(live);
+  const meters = [
+    { label: 'You', rms: input.rms, color: '#22c55e' },
+    { label: 'AI', rms: output.rms, color: '#3b82f6' },
+  ];
+
+  return (
+    <div style={styles.meters}>
+      {meters.map(({ label, rms, color }) => (
+        <div key={label} style={styles.meter}>
+          <span style={styles.meterLabel}>{label}</span>
+          <div style={styles.meterTrack}>
+            <div
+              style={{
+                ...styles.meterFill,
+                width: `${Math.min(100, rms * 300)}%`,
+                backgroundColor: color,
+              }}
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
 const styles: Record<string, React.CSSProperties> = {
   container: {
     maxWidth: 600,
@@ -228,6 +261,32 @@ const styles: Record<string, React.CSSProperties> = {
     height: 8,
     borderRadius: '50%',
   },
+  meters: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: 8,
+  },
+  meter: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 8,
+  },
+  meterLabel: {
+    width: 28,
+    fontSize: 12,
+    color: '#6b7280',
+  },
+  meterTrack: {
+    flex: 1,
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#e5e7eb',
+    overflow: 'hidden',
+  },
+  meterFill: {
+    height: '100%',
+    transition: 'width 50ms linear',
+  },
   transcriptContainer: {
     flex: 1,
     display: 'flex',
@@ -31,6 +31,8 @@ export default function App() {
     error,
   } = useGeminiLive({
     proxyUrl,
+    // Assumes a proxy deployed with PROXY_AUTH_MODE=none (see README). With auth
+    // on, pass getAuthToken returning the signed-in user's Supabase access token.
     onError: (err) => console.error('Gemini error:', err),
   });
 
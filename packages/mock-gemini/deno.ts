@@ -0,0 +1,39 @@
+/**
+ * Mock Gemini Live Server - Deno entry point
+ *
+ * Usage:
+ *   deno run --allow-net --allow-read --allow-env deno.ts [script.json]
+ *
+ * Then point the proxy at it:
+ *   GEMINI_LIVE_URL=ws://localhost:9100/ws
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { DEFAULT_SCRIPT, MockGeminiServer, type MockScript } from "./mock.ts";
+
+const PORT = Number(Deno.env.get("MOCK_GEMINI_PORT") || 9100);
+const scriptPath = Deno.args[0] || Deno.env.get("MOCK_GEMINI_SCRIPT");
+
+const script: MockScript = scriptPath
+  ? JSON.parse(await Deno.readTextFile(scriptPath))
+  : DEFAULT_SCRIPT;
+const mock = new MockGeminiServer(script);
+
+serve(async (req) => {
+  const control = await mock.handleControl(req);
+  if (control) return control;
+
+  if (req.headers.get("upgrade")?.toLowerCase() !== "websocket") {
+    return new Response("Expected WebSocket upgrade", { status: 426 });
+  }
+
+  const { socket, response } = Deno.upgradeWebSocket(req);
+  const session = mock.connect(socket);
+  socket.onmessage = (event) => {
+    if (typeof event.data === "string") session.receive(event.data);
+  };
+  socket.onclose = () => session.onClose();
+  return response;
+}, { port: PORT });
+
+console.log(`[mock-gemini] listening on ws://localhost:${PORT}`);
@@ -0,0 +1,458 @@
+/**
+ * Mock Gemini Live Server - core
+ *
+ * Speaks the BidiGenerateContent WebSocket protocol (setup, serverContent,
+ * toolCall, sessionResumptionUpdate, goAway) and plays scripted responses,
+ * so the proxy and useGeminiLive can be exercised without calling Google.
+ *
+ * This file has no runtime dependencies - deno.ts and node.ts wire it up to
+ * an HTTP server.
+ */
+
+// =============================================================================
+// Script Types
+// =============================================================================
+
+/** Client message kinds, named after their top-level wire field */
+export type MockClientMessageKind =
+  | "setup"
+  | "clientContent"
+  | "realtimeInput"
+  | "toolResponse";
+
+/** Something the mock sends back to the client */
+export type MockEvent =
+  /** Model text part */
+  | { text: string }
+  /** Model audio part - base64 PCM16 at 24kHz */
+  | { audio: string }
+  /** Generated sine tone, sent as 24kHz PCM16 audio in 100ms chunks */
+  | { tone: { durationMs: number; frequency?: number } }
+  | { inputTranscription: string }
+  | { outputTranscription: string }
+  /** Function call - id defaults to a generated one */
+  | { toolCall: { name: string; args?: Record<string, unknown>; id?: string } }
+  | { turnComplete: true }
+  | { interrupted: true }
+  | { usage: Record<string, unknown> }
+  /** Duration string, e.g. "10s" */
+  | { goAway: { timeLeft: string } }
+  /** Close the socket the way Gemini reports errors */
+  | { close: { code: number; reason: string } }
+  | { delayMs: number }
+  /** Sent verbatim */
+  | { raw: Record<string, unknown> };
+
+/**
+ * One request/response exchange. The mock waits for the next client message
+ * of kind `on`, checks it against `match`, then sends `respond` in order.
+ */
+export interface MockExchange {
+  on: MockClientMessageKind;
+  /** Partial deep match against the whole client message */
+  match?: Record<string, unknown>;
+  respond?: MockEvent[];
+}
+
+export interface MockScript {
+  exchanges: MockExchange[];
+  /**
+   * What to do once the exchanges run out:
+   * - 'echo' (default): answer text with "Echo: <text>" plus a short tone
+   * - 'silent': ignore further messages
+   */
+  fallback?: "echo" | "silent";
+  /** Send sessionResumptionUpdate when setup asks for resumption (default: true) */
+  resumable?: boolean;
+}
+
+/** A problem found while checking what the client sent */
+export interface MockFailure {
+  sessionId: number;
+  exchange: number;
+  message: string;
+}
+
+export interface MockSessionReport {
+  id: number;
+  /** Client messages in arrival order (audio and frame data elided) */
+  received: Record<string, unknown>[];
+  /** Exchanges that were never reached */
+  pending: number;
+  closed: boolean;
+}
+
+export interface MockReport {
+  sessions: MockSessionReport[];
+  failures: MockFailure[];
+}
+
+/** The part of a WebSocket the mock needs, so any runtime can drive it */
+export interface MockSocket {
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+}
+
+const OUTPUT_SAMPLE_RATE = 24000;
+const TONE_CHUNK_MS = 100;
+
+export const DEFAULT_SCRIPT: MockScript = { exchanges: [], fallback: "echo" };
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/** Every key in `expected` must be present in `actual` with a matching value */
+export function partialMatch(actual: unknown, expected: unknown): boolean {
+  if (expected === null || typeof expected !== "object") {
+    return actual === expected;
+  }
+  if (actual === null || typeof actual !== "object") {
+    return false;
+  }
+  if (Array.isArray(expected)) {
+    if (!Array.isArray(actual) || actual.length !== expected.length) return false;
+    return expected.every((item, i) => partialMatch(actual[i], item));
+  }
+  return Object.entries(expected).every(([key, value]) =>
+    partialMatch((actual as Record<string, unknown>)[key], value)
+  );
+}
+
+/** Base64 24kHz PCM16 sine tone */
+export function generateTone(durationMs: number, frequency = 440): string {
+  const numSamples = Math.round((OUTPUT_SAMPLE_RATE * durationMs) / 1000);
+  const bytes = new Uint8Array(numSamples * 2);
+  const view = new DataView(bytes.buffer);
+  for (let i = 0; i < numSamples; i++) {
+    const sample = Math.sin((2 * Math.PI * frequency * i) / OUTPUT_SAMPLE_RATE) * 0.3;
+    view.setInt16(i * 2, Math.round(sample * 32767), true);
+  }
+
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+function messageKind(message: Record<string, unknown>): MockClientMessageKind | null {
+  for (const kind of ["setup", "clientContent", "realtimeInput", "toolResponse"] as const) {
+    if (kind in message) return kind;
+  }
+  return null;
+}
+
+/** Copy of a message with media payloads replaced by their size */
+function elideMedia(message: Record<string, unknown>): Record<string, unknown> {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const input = message.realtimeInput as any;
+  if (!input?.mediaChunks) return message;
+  return {
+    realtimeInput: {
+      ...input,
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      mediaChunks: input.mediaChunks.map((chunk: any) => ({
+        mimeType: chunk.mimeType,
+        bytes: Math.floor(((chunk.data?.length ?? 0) * 3) / 4),
+      })),
+    },
+  };
+}
+
+function clientText(message: Record<string, unknown>): string {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const turns = (message.clientContent as any)?.turns ?? [];
+  return turns
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .flatMap((turn: any) => turn.parts ?? [])
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .map((part: any) => part.text ?? "")
+    .join("");
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// =============================================================================
+// Server
+// =============================================================================
+
+/**
+ * Holds the current script and the record of every session, shared by all
+ * connections. Load a new script between test cases with setScript().
+ */
+export class MockGeminiServer {
+  private script: MockScript;
+  private sessions: MockSession[] = [];
+  private failures: MockFailure[] = [];
+  private nextSessionId = 1;
+
+  constructor(script: MockScript = DEFAULT_SCRIPT) {
+    this.script = script;
+  }
+
+  setScript(script: MockScript): void {
+    this.script = script;
+  }
+
+  /** Forget previous sessions and failures */
+  reset(): void {
+    this.sessions = [];
+    this.failures = [];
+  }
+
+  report(): MockReport {
+    return {
+      sessions: this.sessions.map((session) => session.report()),
+      failures: [...this.failures],
+    };
+  }
+
+  /** Start a session for a newly accepted socket */
+  connect(socket: MockSocket): MockSession {
+    const session = new MockSession(this.nextSessionId++, this.script, socket, (failure) => {
+      console.warn(`[mock-gemini] session ${failure.sessionId}: ${failure.message}`);
+      this.failures.push(failure);
+    });
+    this.sessions.push(session);
+    return session;
+  }
+
+  /**
+   * Control API shared by the runtime entry points:
+   * - GET /__mock/report - sessions, received messages and failures
+   * - POST /__mock/script - replace the script (JSON body)
+   * - POST /__mock/reset - clear sessions and failures
+   * Returns null for other paths.
+   */
+  async handleControl(req: Request): Promise<Response | null> {
+    const { pathname } = new URL(req.url);
+    if (!pathname.startsWith("/__mock/")) return null;
+
+    if (pathname === "/__mock/report" && req.method === "GET") {
+      return Response.json(this.report());
+    }
+    if (pathname === "/__mock/script" && req.method === "POST") {
+      try {
+        this.setScript(await req.json());
+        return Response.json({ ok: true });
+      } catch {
+        return Response.json({ error: "Invalid script JSON" }, { status: 400 });
+      }
+    }
+    if (pathname === "/__mock/reset" && req.method === "POST") {
+      this.reset();
+      return Response.json({ ok: true });
+    }
+    return new Response("Not found", { status: 404 });
+  }
+}
+
+// =============================================================================
+// Session
+// =============================================================================
+
+export class MockSession {
+  private received: Record<string, unknown>[] = [];
+  private exchangeIndex = 0;
+  private setupDone = false;
+  private resumption = false;
+  private handleCounter = 0;
+  private toolCallCounter = 0;
+  private closed = false;
+  // Responses are sent one exchange at a time, in order
+  private queue: Promise<void> = Promise.resolve();
+
+  readonly id: number;
+  private script: MockScript;
+  private socket: MockSocket;
+  private onFailure: (failure: MockFailure) => void;
+
+  // No parameter properties - Node runs this file with type stripping only
+  constructor(
+    id: number,
+    script: MockScript,
+    socket: MockSocket,
+    onFailure: (failure: MockFailure) => void
+  ) {
+    this.id = id;
+    this.script = script;
+    this.socket = socket;
+    this.onFailure = onFailure;
+  }
+
+  report(): MockSessionReport {
+    return {
+      id: this.id,
+      received: this.received,
+      pending: this.script.exchanges.length - this.exchangeIndex,
+      closed: this.closed,
+    };
+  }
+
+  /** Feed a raw text frame from the client */
+  receive(raw: string): void {
+    let message: Record<string, unknown>;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      this.fail("Client sent invalid JSON");
+      this.close(1007, "Invalid JSON payload");
+      return;
+    }
+
+    this.received.push(elideMedia(message));
+    const kind = messageKind(message);
+    if (!kind) {
+      this.fail(`Unknown client message: ${Object.keys(message).join(", ")}`);
+      return;
+    }
+
+    if (kind !== "setup" && !this.setupDone) {
+      this.fail(`Client sent ${kind} before setup`);
+      return;
+    }
+
+    if (kind === "setup") {
+      if (this.setupDone) {
+        this.fail("Client sent setup twice");
+        return;
+      }
+      this.setupDone = true;
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      this.resumption = (message.setup as any)?.sessionResumption !== undefined;
+    }
+
+    const events = this.respondTo(kind, message);
+    this.queue = this.queue.then(() => this.play(events));
+  }
+
+  /** The client went away */
+  onClose(): void {
+    this.closed = true;
+  }
+
+  private respondTo(
+    kind: MockClientMessageKind,
+    message: Record<string, unknown>
+  ): MockEvent[] {
+    const events: MockEvent[] = [];
+    if (kind === "setup") {
+      events.push({ raw: { setupComplete: {} } });
+    }
+
+    const exchange = this.script.exchanges[this.exchangeIndex];
+    if (exchange) {
+      // Media streams constantly - only a waiting exchange consumes it
+      if (exchange.on !== kind) {
+        if (kind !== "realtimeInput" && kind !== "setup") {
+          this.fail(`Expected ${exchange.on}, got ${kind}`);
+        }
+        return events;
+      }
+
+      const index = this.exchangeIndex++;
+      if (exchange.match && !partialMatch(message, exchange.match)) {
+        this.fail(
+          `Exchange ${index} did not match: expected ${JSON.stringify(exchange.match)}`,
+          index
+        );
+      }
+      events.push(...(exchange.respond ?? []));
+      return events;
+    }
+
+    if ((this.script.fallback ?? "echo") === "echo" && kind === "clientContent") {
+      const text = `Echo: ${clientText(message)}`;
+      events.push(
+        { outputTranscription: text },
+        { text },
+        { tone: { durationMs: 300 } },
+        { turnComplete: true }
+      );
+    }
+    return events;
+  }
+
+  private async play(events: MockEvent[]): Promise<void> {
+    for (const event of events) {
+      if (this.closed) return;
+
+      if ("delayMs" in event) {
+        await sleep(event.delayMs);
+      } else if ("raw" in event) {
+        this.send(event.raw);
+        if ("setupComplete" in event.raw) this.sendHandle();
+      } else if ("text" in event) {
+        this.sendContent({ modelTurn: { parts: [{ text: event.text }] } });
+      } else if ("audio" in event) {
+        this.sendAudio(event.audio);
+      } else if ("tone" in event) {
+        const { durationMs, frequency } = event.tone;
+        for (let sent = 0; sent < durationMs; sent += TONE_CHUNK_MS) {
+          this.sendAudio(generateTone(Math.min(TONE_CHUNK_MS, durationMs - sent), frequency));
+        }
+      } else if ("inputTranscription" in event) {
+        this.sendContent({ inputTranscription: { text: event.inputTranscription } });
+      } else if ("outputTranscription" in event) {
+        this.sendContent({ outputTranscription: { text: event.outputTranscription } });
+      } else if ("toolCall" in event) {
+        const { name, args = {}, id } = event.toolCall;
+        this.send({
+          toolCall: {
+            functionCalls: [{ id: id ?? `mock-call-${++this.toolCallCounter}`, name, args }],
+          },
+        });
+      } else if ("turnComplete" in event) {
+        this.sendContent({ turnComplete: true });
+        this.sendHandle();
+      } else if ("interrupted" in event) {
+        this.sendContent({ interrupted: true });
+      } else if ("usage" in event) {
+        this.send({ usageMetadata: event.usage });
+      } else if ("goAway" in event) {
+        this.send({ goAway: event.goAway });
+      } else if ("close" in event) {
+        this.close(event.close.code, event.close.reason);
+      }
+    }
+  }
+
+  private sendContent(serverContent: Record<string, unknown>): void {
+    this.send({ serverContent });
+  }
+
+  private sendAudio(data: string): void {
+    this.sendContent({
+      modelTurn: {
+        parts: [{ inlineData: { mimeType: `audio/pcm;rate=${OUTPUT_SAMPLE_RATE}`, data } }],
+      },
+    });
+  }
+
+  /** New resumption handle, as Gemini sends after setup and each turn */
+  private sendHandle(): void {
+    if (!this.resumption || this.script.resumable === false) return;
+    this.send({
+      sessionResumptionUpdate: {
+        newHandle: `mock-handle-${this.id}-${++this.handleCounter}`,
+        resumable: true,
+      },
+    });
+  }
+
+  private send(message: Record<string, unknown>): void {
+    if (this.closed) return;
+    this.socket.send(JSON.stringify(message));
+  }
+
+  private close(code: number, reason: string): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.socket.close(code, reason);
+  }
+
+  private fail(message: string, exchange = this.exchangeIndex): void {
+    this.onFailure({ sessionId: this.id, exchange, message });
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * Mock Gemini Live Server - Node entry point
+ *
+ * Usage (Node 22.18+ runs TypeScript directly):
+ *   node node.ts [script.json]
+ *
+ * Then point the proxy at it:
+ *   GEMINI_LIVE_URL=ws://localhost:9100/ws
+ *
+ * No dependencies: the WebSocket handshake and framing are implemented here,
+ * covering what Gemini's protocol needs (text frames, ping and close).
+ */
+
+import { createServer } from "node:http";
+import { createHash } from "node:crypto";
+import { readFileSync } from "node:fs";
+import type { Duplex } from "node:stream";
+import { DEFAULT_SCRIPT, MockGeminiServer, type MockScript, type MockSocket } from "./mock.ts";
+
+const PORT = Number(process.env.MOCK_GEMINI_PORT || 9100);
+const scriptPath = process.argv[2] || process.env.MOCK_GEMINI_SCRIPT;
+
+const WS_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+function encodeFrame(opcode: number, payload: Buffer): Buffer {
+  const length = payload.length;
+  let header: Buffer;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+/** Server side of an upgraded connection */
+class NodeWebSocket implements MockSocket {
+  onmessage: (data: string) => void = () => {};
+  onclose: () => void = () => {};
+
+  private stream: Duplex;
+  private buffer = Buffer.alloc(0);
+  private fragments: Buffer[] = [];
+  private closed = false;
+
+  constructor(stream: Duplex) {
+    this.stream = stream;
+    stream.on("data", (chunk: Buffer) => {
+      this.buffer = Buffer.concat([this.buffer, chunk]);
+      this.parse();
+    });
+    stream.on("close", () => this.finish());
+    stream.on("error", () => this.finish());
+  }
+
+  send(data: string): void {
+    if (this.closed) return;
+    this.stream.write(encodeFrame(OPCODE_TEXT, Buffer.from(data)));
+  }
+
+  close(code = 1000, reason = ""): void {
+    if (this.closed) return;
+    const payload = Buffer.alloc(2 + Buffer.byteLength(reason));
+    payload.writeUInt16BE(code, 0);
+    payload.write(reason, 2);
+    this.stream.end(encodeFrame(OPCODE_CLOSE, payload));
+    this.finish();
+  }
+
+  private finish(): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.onclose();
+  }
+
+  private parse(): void {
+    while (this.buffer.length >= 2) {
+      const fin = (this.buffer[0] & 0x80) !== 0;
+      const opcode = this.buffer[0] & 0x0f;
+      const masked = (this.buffer[1] & 0x80) !== 0;
+      let length = this.buffer[1] & 0x7f;
+      let offset = 2;
+
+      if (length === 126) {
+        if (this.buffer.length < 4) return;
+        length = this.buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (this.buffer.length < 10) return;
+        length = Number(this.buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+
+      const maskOffset = offset;
+      if (masked) offset += 4;
+      if (this.buffer.length < offset + length) return;
+
+      const payload = Buffer.from(this.buffer.subarray(offset, offset + length));
+      if (masked) {
+        for (let i = 0; i < length; i++) {
+          payload[i] ^= this.buffer[maskOffset + (i % 4)];
+        }
+      }
+      this.buffer = this.buffer.subarray(offset + length);
+
+      if (opcode === OPCODE_CLOSE) {
+        // Echo the peer's close code back
+        this.close(payload.length >= 2 ? payload.readUInt16BE(0) : 1000);
+        return;
+      }
+      if (opcode === OPCODE_PING) {
+        this.stream.write(encodeFrame(OPCODE_PONG, payload));
+        continue;
+      }
+      if (opcode === OPCODE_PONG) continue;
+
+      // Text, binary or continuation
+      this.fragments.push(payload);
+      if (fin) {
+        const message = Buffer.concat(this.fragments).toString("utf8");
+        this.fragments = [];
+        this.onmessage(message);
+      }
+    }
+  }
+}
+
+const script: MockScript = scriptPath
+  ? JSON.parse(readFileSync(scriptPath, "utf8"))
+  : DEFAULT_SCRIPT;
+const mock = new MockGeminiServer(script);
+
+const server = createServer(async (req, res) => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk);
+
+  const hasBody = req.method !== "GET" && req.method !== "HEAD";
+  const request = new Request(`http://localhost${req.url}`, {
+    method: req.method,
+    body: hasBody ? Buffer.concat(chunks) : undefined,
+  });
+  const response =
+    (await mock.handleControl(request)) ??
+    new Response("Expected WebSocket upgrade", { status: 426 });
+
+  res.writeHead(response.status, Object.fromEntries(response.headers));
+  res.end(Buffer.from(await response.arrayBuffer()));
+});
+
+server.on("upgrade", (req, stream: Duplex) => {
+  const key = req.headers["sec-websocket-key"];
+  if (typeof key !== "string") {
+    stream.destroy();
+    return;
+  }
+
+  const accept = createHash("sha1").update(key + WS_GUID).digest("base64");
+  stream.write(
+    [
+      "HTTP/1.1 101 Switching Protocols",
+      "Upgrade: websocket",
+      "Connection: Upgrade",
+      `Sec-WebSocket-Accept: ${accept}`,
+      "",
+      "",
+    ].join("\r\n")
+  );
+
+  const socket = new NodeWebSocket(stream);
+  const session = mock.connect(socket);
+  socket.onmessage = (data) => session.receive(data);
+  socket.onclose = () => session.onClose();
+});
+
+server.listen(PORT, () => {
+  console.log(`[mock-gemini] listening on ws://localhost:${PORT}`);
+});
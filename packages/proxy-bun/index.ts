@@ -0,0 +1,67 @@
+/**
+ * Gemini Live Proxy for Bun
+ *
+ * Bun adapter for ../proxy-core. Configuration is the same as the Deno proxy
+ * (see ../proxy-deno/README.md), read from Bun.env.
+ *
+ * Usage:
+ *   GOOGLE_AI_API_KEY=your-key PORT=8080 bun run index.ts
+ */
+
+import {
+  GeminiLiveProxy,
+  wrapSocket,
+  type ClientHandlers,
+  type ProxyConnection,
+} from "../proxy-core/mod.ts";
+
+const proxy = new GeminiLiveProxy({ env: (name) => Bun.env[name] });
+
+// Register server-side tools and a custom auth verifier here, e.g.
+// proxy.registerServerTool({ name: "lookup_order", ... });
+
+interface SocketData {
+  connection: ProxyConnection;
+  handlers?: ClientHandlers;
+}
+
+Bun.serve<SocketData>({
+  port: Number(Bun.env.PORT || 8080),
+
+  async fetch(req, server) {
+    const early = await proxy.handleHttp(req);
+    if (early) return early;
+
+    const clientIp = proxy.clientIp(req, server.requestIP(req)?.address);
+    const connection = await proxy.accept(req, clientIp);
+
+    const upgraded = server.upgrade(req, {
+      data: { connection },
+      headers: connection.protocol
+        ? { "Sec-WebSocket-Protocol": connection.protocol }
+        : undefined,
+    });
+    if (upgraded) return undefined;
+
+    connection.release();
+    return new Response("WebSocket upgrade failed", {
+      status: 500,
+      headers: proxy.corsHeaders(req),
+    });
+  },
+
+  websocket: {
+    open(ws) {
+      ws.data.handlers = ws.data.connection.attach(wrapSocket(ws));
+      ws.data.handlers.onOpen();
+    },
+    message(ws, message) {
+      ws.data.handlers?.onMessage(message);
+    },
+    close(ws) {
+      ws.data.handlers?.onClose();
+    },
+  },
+});
+
+console.log(`Gemini Live proxy listening on ws://localhost:${Bun.env.PORT || 8080}`);
@@ -0,0 +1,143 @@
+/**
+ * Authentication, origin checks and CORS for proxy connections.
+ */
+
+import type { ProxyConfig } from "./config.ts";
+
+// Prefix clients use to send a token as a subprotocol
+const AUTH_PROTOCOL_PREFIX = "bearer.";
+
+export interface AuthUser {
+  /** Stable user identifier (JWT sub, Supabase user id, ...) */
+  id: string;
+  claims?: Record<string, unknown>;
+}
+
+/** Resolve a token to a user, or null to reject the connection */
+export type AuthVerifier = (token: string, req: Request) => Promise<AuthUser | null>;
+
+function base64UrlDecode(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const padded = base64 + "=".repeat((4 - (base64.length % 4)) % 4);
+  return Uint8Array.from(atob(padded), (c) => c.charCodeAt(0));
+}
+
+async function verifySupabaseToken(
+  config: ProxyConfig,
+  token: string
+): Promise<AuthUser | null> {
+  const { supabaseUrl, supabaseAnonKey } = config;
+  if (!supabaseUrl || !supabaseAnonKey) {
+    console.error("SUPABASE_URL / SUPABASE_ANON_KEY not configured");
+    return null;
+  }
+  const res = await fetch(`${supabaseUrl}/auth/v1/user`, {
+    headers: { Authorization: `Bearer ${token}`, apikey: supabaseAnonKey },
+  });
+  if (!res.ok) return null;
+  const user = await res.json();
+  return user?.id ? { id: user.id, claims: user } : null;
+}
+
+async function verifyHs256Jwt(config: ProxyConfig, token: string): Promise<AuthUser | null> {
+  const { jwtSecret, jwtAudience } = config;
+  if (!jwtSecret) {
+    console.error("PROXY_JWT_SECRET not configured");
+    return null;
+  }
+  const [header, payload, signature] = token.split(".");
+  if (!header || !payload || !signature) return null;
+
+  const decoder = new TextDecoder();
+  if (JSON.parse(decoder.decode(base64UrlDecode(header))).alg !== "HS256") {
+    return null;
+  }
+
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(jwtSecret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["verify"]
+  );
+  const valid = await crypto.subtle.verify(
+    "HMAC",
+    key,
+    base64UrlDecode(signature),
+    encoder.encode(`${header}.${payload}`)
+  );
+  if (!valid) return null;
+
+  const claims = JSON.parse(decoder.decode(base64UrlDecode(payload)));
+  const now = Date.now() / 1000;
+  // Tokens must expire, and sub keys the per-user limits - without one every
+  // such caller would share a single bucket
+  if (typeof claims.exp !== "number" || claims.exp < now) return null;
+  if (typeof claims.sub !== "string" || !claims.sub) return null;
+  if (typeof claims.nbf === "number" && claims.nbf > now) return null;
+  if (jwtAudience && ![claims.aud].flat().includes(jwtAudience)) return null;
+
+  return { id: claims.sub, claims };
+}
+
+function verifyBearerToken(config: ProxyConfig, token: string): Promise<AuthUser | null> {
+  const index = config.bearerTokens.indexOf(token);
+  return Promise.resolve(index === -1 ? null : { id: `token:${index}` });
+}
+
+/** The verifier for PROXY_AUTH_MODE (null disables auth) */
+export function createAuthVerifier(config: ProxyConfig): AuthVerifier | null {
+  switch (config.authMode) {
+    case "supabase":
+      return (token) => verifySupabaseToken(config, token);
+    case "jwt":
+      return (token) => verifyHs256Jwt(config, token);
+    case "bearer":
+      return (token) => verifyBearerToken(config, token);
+    case "none":
+      return null;
+    default:
+      console.error("Unknown PROXY_AUTH_MODE, rejecting all connections:", config.authMode);
+      return () => Promise.resolve(null);
+  }
+}
+
+/**
+ * Read the auth token from the subprotocol header, the Authorization header
+ * (ephemeral token requests) or the access_token param
+ */
+export function getAuthToken(req: Request, url: URL): string | null {
+  const authorization = req.headers.get("authorization");
+  if (authorization?.startsWith("Bearer ")) return authorization.slice("Bearer ".length);
+  const authProtocol = getOfferedProtocols(req).find((p) =>
+    p.startsWith(AUTH_PROTOCOL_PREFIX)
+  );
+  if (authProtocol) return authProtocol.slice(AUTH_PROTOCOL_PREFIX.length);
+  return url.searchParams.get("access_token");
+}
+
+export function getOfferedProtocols(req: Request): string[] {
+  return (req.headers.get("sec-websocket-protocol") || "")
+    .split(",")
+    .map((protocol) => protocol.trim())
+    .filter(Boolean);
+}
+
+export function getCorsHeaders(
+  config: ProxyConfig,
+  origin: string | null
+): Record<string, string> {
+  const { allowedOrigins } = config;
+  const allowOrigin = !allowedOrigins
+    ? "*"
+    : origin && allowedOrigins.includes(origin)
+      ? origin
+      : allowedOrigins[0];
+  return {
+    "Access-Control-Allow-Origin": allowOrigin,
+    "Access-Control-Allow-Headers":
+      "authorization, x-client-info, apikey, content-type, upgrade, connection, sec-websocket-key, sec-websocket-version, sec-websocket-protocol",
+    ...(allowedOrigins && { Vary: "Origin" }),
+  };
+}
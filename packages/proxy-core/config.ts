@@ -0,0 +1,334 @@
+/**
+ * Proxy configuration, read from environment variables, and validation of
+ * the per-session config clients may request.
+ */
+
+import type { ActivityDetectionConfig } from "./protocol.ts";
+import { vertexLiveUrl } from "./vertex.ts";
+
+/** Reads an environment variable (Deno.env.get, process.env, a Workers env, ...) */
+export type EnvReader = (name: string) => string | undefined;
+
+export const DEFAULT_GEMINI_LIVE_URL =
+  "wss://generativelanguage.googleapis.com/ws/google.ai.generativelanguage.v1beta.GenerativeService.BidiGenerateContent";
+
+const DEFAULT_SYSTEM_INSTRUCTION = `You are a helpful AI assistant having a real-time voice conversation.
+
+Guidelines:
+- Speak naturally and conversationally
+- Be concise - give direct answers
+- Ask clarifying questions if needed
+
+You're having a real-time voice conversation. Respond as if speaking, not writing.`;
+
+export const PREBUILT_VOICES = [
+  "Zephyr", "Puck", "Charon", "Kore", "Fenrir", "Leda", "Orus", "Aoede",
+  "Callirrhoe", "Autonoe", "Enceladus", "Iapetus", "Umbriel", "Algieba",
+  "Despina", "Erinome", "Algenib", "Rasalgethi", "Laomedeia", "Achernar",
+  "Alnilam", "Schedar", "Gacrux", "Pulcherrima", "Achird", "Zubenelgenubi",
+  "Vindemiatrix", "Sadachbia", "Sadaltager", "Sulafat",
+];
+
+const MAX_SYSTEM_INSTRUCTION_LENGTH = 20000;
+
+const RESPONSE_MODALITIES = ["AUDIO", "TEXT"];
+const MEDIA_RESOLUTIONS = [
+  "MEDIA_RESOLUTION_LOW",
+  "MEDIA_RESOLUTION_MEDIUM",
+  "MEDIA_RESOLUTION_HIGH",
+];
+
+const SENSITIVITIES = ["high", "low"];
+const ACTIVITY_HANDLING = ["interrupt", "no-interrupt"];
+const MAX_ACTIVITY_DURATION_MS = 10_000;
+
+/** "gemini": Generative Language API with an API key; "vertex": Vertex AI with OAuth */
+export type Backend = "gemini" | "vertex";
+
+export interface ProxyConfig {
+  backend: Backend;
+  apiKey: string | undefined;
+  /** Gemini Live WebSocket URL - point at packages/mock-gemini for offline development */
+  geminiLiveUrl: string;
+  /** Log per-message chatter (tool results, ...) */
+  debug: boolean;
+
+  // Vertex AI
+  vertexProject: string | undefined;
+  vertexLocation: string;
+  /** Service account key file contents; the metadata server is used without it */
+  serviceAccountJson: string | undefined;
+
+  defaultModel: string;
+  defaultVoice: string;
+  defaultSystemInstruction: string;
+
+  // Per-session config allowlist
+  allowedModels: string[];
+  allowedVoices: string[];
+  allowedLanguages: string[] | null;
+  allowClientSystemInstruction: boolean;
+  maxThinkingBudget: number;
+
+  // Authentication and origin checks
+  authMode: string;
+  jwtSecret: string | undefined;
+  jwtAudience: string | undefined;
+  bearerTokens: string[];
+  allowedOrigins: string[] | null;
+  /** Addresses of load balancers whose X-Forwarded-For is believed */
+  trustedProxies: string[];
+  /** Mint ephemeral tokens for clients that connect to Gemini directly */
+  ephemeralTokens: boolean;
+  // Provided automatically to Supabase Edge Functions
+  supabaseUrl: string | undefined;
+  supabaseAnonKey: string | undefined;
+
+  // Rate limits and quotas (0 disables a limit)
+  maxSessionsPerUser: number;
+  maxSessionSeconds: number;
+  maxAudioBytesPerMinute: number;
+  maxFrameBytesPerMinute: number;
+  /** Inline data in a single content message */
+  maxContentBytes: number;
+  maxContentBytesPerMinute: number;
+}
+
+export function parseList(value: string | undefined): string[] | null {
+  if (!value) return null;
+  const items = value.split(",").map((item) => item.trim()).filter(Boolean);
+  return items.length > 0 ? items : null;
+}
+
+/**
+ * Read a non-negative number (a limit, budget or duration). Unset or empty
+ * gives the default; anything else that isn't a finite number >= 0 also falls
+ * back to the default, so a typo can't turn a limit into 0 ("disabled") or NaN.
+ */
+export function parseLimit(env: EnvReader, name: string, fallback: number): number {
+  const raw = env(name)?.trim();
+  if (!raw) return fallback;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0) {
+    console.warn(`Ignoring invalid ${name}=${JSON.stringify(raw)}, using ${fallback}`);
+    return fallback;
+  }
+  return value;
+}
+
+/** IPv4 addresses as IPv4, not IPv4-mapped IPv6 (::ffff:10.0.0.1) */
+export function normalizeIp(address: string): string {
+  return address.toLowerCase().startsWith("::ffff:") && address.includes(".")
+    ? address.slice(7)
+    : address;
+}
+
+export function normalizeModel(model: string): string {
+  return model.startsWith("models/") ? model : `models/${model}`;
+}
+
+/** Build the proxy config from environment variables */
+export function loadConfig(env: EnvReader): ProxyConfig {
+  const backend: Backend = env("GEMINI_BACKEND") === "vertex" ? "vertex" : "gemini";
+  const vertexLocation = env("VERTEX_LOCATION") || "us-central1";
+  // Vertex uses its own model IDs
+  const defaultModel = normalizeModel(
+    env("GEMINI_MODEL") ||
+      (backend === "vertex"
+        ? "gemini-live-2.5-flash-native-audio"
+        : "models/gemini-2.5-flash-native-audio-preview-12-2025")
+  );
+
+  return {
+    backend,
+    apiKey: env("GOOGLE_AI_API_KEY"),
+    geminiLiveUrl:
+      env("GEMINI_LIVE_URL") ||
+      (backend === "vertex" ? vertexLiveUrl(vertexLocation) : DEFAULT_GEMINI_LIVE_URL),
+    debug: env("PROXY_DEBUG") === "true",
+
+    vertexProject: env("VERTEX_PROJECT"),
+    vertexLocation,
+    serviceAccountJson: env("GOOGLE_SERVICE_ACCOUNT_JSON"),
+
+    defaultModel,
+    defaultVoice: env("GEMINI_VOICE") || "Zephyr",
+    defaultSystemInstruction: env("GEMINI_SYSTEM_INSTRUCTION") || DEFAULT_SYSTEM_INSTRUCTION,
+
+    allowedModels: (parseList(env("GEMINI_ALLOWED_MODELS")) ?? [defaultModel]).map(
+      normalizeModel
+    ),
+    allowedVoices: parseList(env("GEMINI_ALLOWED_VOICES")) ?? PREBUILT_VOICES,
+    allowedLanguages: parseList(env("GEMINI_ALLOWED_LANGUAGES")),
+    allowClientSystemInstruction: env("GEMINI_ALLOW_CLIENT_SYSTEM_INSTRUCTION") === "true",
+    maxThinkingBudget: parseLimit(env, "GEMINI_MAX_THINKING_BUDGET", 8192),
+
+    authMode: env("PROXY_AUTH_MODE") || "supabase",
+    jwtSecret: env("PROXY_JWT_SECRET"),
+    jwtAudience: env("PROXY_JWT_AUDIENCE"),
+    bearerTokens: parseList(env("PROXY_BEARER_TOKENS")) ?? [],
+    allowedOrigins: parseList(env("PROXY_ALLOWED_ORIGINS")),
+    trustedProxies: (parseList(env("PROXY_TRUSTED_PROXIES")) ?? []).map(normalizeIp),
+    ephemeralTokens: env("PROXY_EPHEMERAL_TOKENS") === "true",
+    supabaseUrl: env("SUPABASE_URL"),
+    supabaseAnonKey: env("SUPABASE_ANON_KEY"),
+
+    maxSessionsPerUser: parseLimit(env, "PROXY_MAX_SESSIONS_PER_USER", 3),
+    maxSessionSeconds: parseLimit(env, "PROXY_MAX_SESSION_SECONDS", 1800),
+    maxAudioBytesPerMinute: parseLimit(env, "PROXY_MAX_AUDIO_BYTES_PER_MINUTE", 4_000_000),
+    maxFrameBytesPerMinute: parseLimit(env, "PROXY_MAX_FRAME_BYTES_PER_MINUTE", 20_000_000),
+    maxContentBytes: parseLimit(env, "PROXY_MAX_CONTENT_BYTES", 5_000_000),
+    maxContentBytesPerMinute: parseLimit(env, "PROXY_MAX_CONTENT_BYTES_PER_MINUTE", 20_000_000),
+  };
+}
+
+// Session config after validation against the allowlist
+export interface SessionConfig {
+  model: string;
+  voice: string;
+  systemInstruction: string;
+  temperature?: number;
+  responseModalities: string[];
+  mediaResolution: string;
+  languageCode?: string;
+  thinkingBudget?: number;
+}
+
+/**
+ * Validate the client's sessionConfig (and the legacy voice query param)
+ * against the allowlist. Returns an error message for anything not allowed.
+ */
+export function validateSessionConfig(
+  proxyConfig: ProxyConfig,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  raw: any,
+  queryVoice: string | null
+): { config: SessionConfig } | { error: string } {
+  const requested = raw && typeof raw === "object" ? raw : {};
+  const config: SessionConfig = {
+    model: proxyConfig.defaultModel,
+    voice: proxyConfig.defaultVoice,
+    systemInstruction: proxyConfig.defaultSystemInstruction,
+    responseModalities: ["AUDIO"],
+    mediaResolution: "MEDIA_RESOLUTION_MEDIUM",
+  };
+
+  if (requested.model !== undefined) {
+    const model = typeof requested.model === "string" ? normalizeModel(requested.model) : "";
+    if (!proxyConfig.allowedModels.includes(model)) {
+      return { error: `Model not allowed: ${requested.model}` };
+    }
+    config.model = model;
+  }
+
+  const voice = requested.voice ?? queryVoice;
+  if (voice !== undefined && voice !== null) {
+    if (!proxyConfig.allowedVoices.includes(voice)) {
+      return { error: `Voice not allowed: ${voice}` };
+    }
+    config.voice = voice;
+  }
+
+  if (requested.systemInstruction !== undefined) {
+    if (!proxyConfig.allowClientSystemInstruction) {
+      return { error: "Custom system instructions are not allowed" };
+    }
+    if (
+      typeof requested.systemInstruction !== "string" ||
+      requested.systemInstruction.length > MAX_SYSTEM_INSTRUCTION_LENGTH
+    ) {
+      return { error: "Invalid system instruction" };
+    }
+    config.systemInstruction = requested.systemInstruction;
+  }
+
+  if (requested.temperature !== undefined) {
+    const t = requested.temperature;
+    if (typeof t !== "number" || !(t >= 0 && t <= 2)) {
+      return { error: "Temperature must be a number between 0 and 2" };
+    }
+    config.temperature = t;
+  }
+
+  if (requested.responseModalities !== undefined) {
+    const modalities = requested.responseModalities;
+    // The Live API supports exactly one response modality per session
+    if (
+      !Array.isArray(modalities) ||
+      modalities.length !== 1 ||
+      !RESPONSE_MODALITIES.includes(modalities[0])
+    ) {
+      return { error: "responseModalities must be [\"AUDIO\"] or [\"TEXT\"]" };
+    }
+    config.responseModalities = modalities;
+  }
+
+  if (requested.mediaResolution !== undefined) {
+    if (!MEDIA_RESOLUTIONS.includes(requested.mediaResolution)) {
+      return { error: `Invalid media resolution: ${requested.mediaResolution}` };
+    }
+    config.mediaResolution = requested.mediaResolution;
+  }
+
+  if (requested.languageCode !== undefined) {
+    const code = requested.languageCode;
+    const allowedLanguages = proxyConfig.allowedLanguages;
+    if (
+      typeof code !== "string" ||
+      !/^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/.test(code) ||
+      (allowedLanguages && !allowedLanguages.includes(code))
+    ) {
+      return { error: `Language not allowed: ${code}` };
+    }
+    config.languageCode = code;
+  }
+
+  if (requested.thinkingBudget !== undefined) {
+    const budget = requested.thinkingBudget;
+    const max = proxyConfig.maxThinkingBudget;
+    if (!Number.isInteger(budget) || budget < 0 || budget > max) {
+      return { error: `thinkingBudget must be an integer between 0 and ${max}` };
+    }
+    config.thinkingBudget = budget;
+  }
+
+  return { config };
+}
+
+/**
+ * Validate the client's activityDetection settings. Nothing here costs more
+ * to serve, so there is no allowlist - only shape checks.
+ */
+export function validateActivityDetection(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  raw: any
+): { config: ActivityDetectionConfig } | { error: string } {
+  if (raw === undefined || raw === null) return { config: {} };
+  if (typeof raw !== "object" || Array.isArray(raw)) {
+    return { error: "activityDetection must be an object" };
+  }
+
+  const config: ActivityDetectionConfig = {};
+  for (const field of ["startSensitivity", "endSensitivity"] as const) {
+    if (raw[field] === undefined) continue;
+    if (!SENSITIVITIES.includes(raw[field])) {
+      return { error: `${field} must be "high" or "low"` };
+    }
+    config[field] = raw[field];
+  }
+  for (const field of ["prefixPaddingMs", "silenceDurationMs"] as const) {
+    if (raw[field] === undefined) continue;
+    const ms = raw[field];
+    if (!Number.isInteger(ms) || ms < 0 || ms > MAX_ACTIVITY_DURATION_MS) {
+      return { error: `${field} must be an integer between 0 and ${MAX_ACTIVITY_DURATION_MS}` };
+    }
+    config[field] = ms;
+  }
+  if (raw.activityHandling !== undefined) {
+    if (!ACTIVITY_HANDLING.includes(raw.activityHandling)) {
+      return { error: "activityHandling must be \"interrupt\" or \"no-interrupt\"" };
+    }
+    config.activityHandling = raw.activityHandling;
+  }
+  return { config };
+}
@@ -0,0 +1,669 @@
+/**
+ * Proxy Protocol Conformance Suite
+ *
+ * Drives a running proxy (any adapter) against packages/mock-gemini and
+ * checks both sides of every translation: what the browser receives, and
+ * what Gemini receives. Every adapter must pass it.
+ *
+ * Usage:
+ *   1. Start the mock:  node ../mock-gemini/node.ts
+ *   2. Start a proxy with GEMINI_LIVE_URL=ws://localhost:9100/ws,
+ *      GOOGLE_AI_API_KEY=unused and PROXY_AUTH_MODE=none
+ *   3. Run:  PROXY_URL=ws://localhost:8080 node conformance.ts
+ *      (or deno run --allow-net --allow-env conformance.ts, or bun conformance.ts)
+ *
+ * Exits with code 1 when any case fails.
+ */
+
+import type { MockScript, MockReport } from "../mock-gemini/mock.ts";
+import {
+  encodeAudioFrame,
+  parseAudioFrame,
+  parseProxyMessage,
+  PROTOCOL_VERSION,
+} from "./protocol.ts";
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const runtime = globalThis as any;
+
+function env(name: string): string | undefined {
+  return runtime.Deno ? runtime.Deno.env.get(name) : runtime.process?.env[name];
+}
+
+function exit(code: number): never {
+  if (runtime.Deno) runtime.Deno.exit(code);
+  runtime.process.exit(code);
+  throw new Error("unreachable");
+}
+
+const PROXY_URL = env("PROXY_URL") || "ws://localhost:8080";
+const MOCK_URL = env("MOCK_URL") || "http://localhost:9100";
+const TIMEOUT_MS = Number(env("CONFORMANCE_TIMEOUT_MS") || 3000);
+
+// =============================================================================
+// Test Client
+// =============================================================================
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type Message = Record<string, any>;
+
+/** Browser side of the proxy: records every message it receives */
+class TestClient {
+  private socket: WebSocket;
+  private received: Message[] = [];
+  private waiters: (() => void)[] = [];
+  private closeCode: number | null = null;
+
+  private constructor(socket: WebSocket) {
+    this.socket = socket;
+    socket.binaryType = "arraybuffer";
+    socket.onmessage = (event) => {
+      // Everything the proxy sends must match the wire protocol. Binary
+      // frames are recorded as "audio_frame" messages.
+      if (typeof event.data === "string") {
+        const parsed = parseProxyMessage(event.data);
+        this.received.push(parsed.ok ? parsed.message : { type: "invalid", error: parsed.error });
+      } else {
+        const parsed = parseAudioFrame(new Uint8Array(event.data));
+        this.received.push(
+          parsed.ok ? { type: "audio_frame", ...parsed.message } : { type: "invalid", error: parsed.error }
+        );
+      }
+      this.notify();
+    };
+    socket.onclose = (event) => {
+      this.closeCode = event.code;
+      this.notify();
+    };
+  }
+
+  static connect(query = ""): Promise<TestClient> {
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(`${PROXY_URL}${query}`, ["gemini-live"]);
+      socket.onopen = () => resolve(new TestClient(socket));
+      socket.onerror = () => reject(new Error(`Could not connect to ${PROXY_URL}`));
+    });
+  }
+
+  send(message: Message): void {
+    this.socket.send(JSON.stringify(message));
+  }
+
+  sendBytes(bytes: Uint8Array): void {
+    this.socket.send(bytes);
+  }
+
+  /** Resolve with (and consume) the first message of this type */
+  async expect(type: string, timeoutMs = TIMEOUT_MS): Promise<Message> {
+    const deadline = Date.now() + timeoutMs;
+    for (;;) {
+      const invalid = this.received.find((message) => message.type === "invalid");
+      if (invalid) throw new Error(`Invalid proxy message: ${invalid.error}`);
+      const index = this.received.findIndex((message) => message.type === type);
+      if (index !== -1) return this.received.splice(index, 1)[0];
+      if (Date.now() >= deadline) {
+        const seen = this.received.map((message) => message.type).join(", ") || "nothing";
+        throw new Error(`Expected a ${type} message, got ${seen}`);
+      }
+      await this.next(deadline - Date.now());
+    }
+  }
+
+  /** Fail if a message of this type arrives within the window */
+  async expectNone(type: string, windowMs = 300): Promise<void> {
+    await new Promise((resolve) => setTimeout(resolve, windowMs));
+    if (this.received.some((message) => message.type === type)) {
+      throw new Error(`Unexpected ${type} message`);
+    }
+  }
+
+  /** Resolve with the close code once the proxy closes the connection */
+  async closed(timeoutMs = TIMEOUT_MS): Promise<number> {
+    const deadline = Date.now() + timeoutMs;
+    while (this.closeCode === null) {
+      if (Date.now() >= deadline) throw new Error("Expected the connection to close");
+      await this.next(deadline - Date.now());
+    }
+    return this.closeCode;
+  }
+
+  close(): void {
+    this.socket.close(1000);
+  }
+
+  private next(timeoutMs: number): Promise<void> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(resolve, timeoutMs);
+      this.waiters.push(() => {
+        clearTimeout(timer);
+        resolve();
+      });
+    });
+  }
+
+  private notify(): void {
+    const waiters = this.waiters;
+    this.waiters = [];
+    waiters.forEach((wake) => wake());
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+async function mockRequest(path: string, body?: unknown): Promise<MockReport> {
+  const res = await fetch(`${MOCK_URL}/__mock/${path}`, {
+    method: body === undefined && path === "report" ? "GET" : "POST",
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  return await res.json();
+}
+
+function assertEqual(actual: unknown, expected: unknown, what: string): void {
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    throw new Error(`${what}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+  }
+}
+
+/** Connect, send setup and wait for setup_complete */
+async function setUp(setup: Message = {}, query = ""): Promise<TestClient> {
+  const client = await TestClient.connect(query);
+  client.send({ type: "setup", protocolVersion: PROTOCOL_VERSION, tools: [], ...setup });
+  const complete = await client.expect("setup_complete");
+  assertEqual(complete.protocolVersion, PROTOCOL_VERSION, "protocolVersion");
+  return client;
+}
+
+const WEATHER_TOOL = {
+  name: "get_weather",
+  description: "Get the weather for a city",
+  parameters: { type: "object", properties: { city: { type: "string" } } },
+};
+
+// =============================================================================
+// Cases
+// =============================================================================
+
+interface ConformanceCase {
+  name: string;
+  script: MockScript;
+  run: () => Promise<void>;
+}
+
+const CASES: ConformanceCase[] = [
+  {
+    name: "setup carries session config and tools",
+    script: {
+      exchanges: [
+        {
+          on: "setup",
+          match: {
+            setup: {
+              generationConfig: {
+                speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: "Puck" } } },
+              },
+              tools: [{ functionDeclarations: [{ name: "get_weather" }] }],
+            },
+          },
+        },
+      ],
+    },
+    run: async () => {
+      const client = await setUp({ tools: [WEATHER_TOOL], sessionConfig: { voice: "Puck" } });
+      client.close();
+    },
+  },
+  {
+    name: "invalid session config is rejected",
+    script: { exchanges: [] },
+    run: async () => {
+      const client = await TestClient.connect();
+      client.send({
+        type: "setup",
+        protocolVersion: PROTOCOL_VERSION,
+        tools: [],
+        sessionConfig: { voice: "NotAVoice" },
+      });
+      await client.expect("error");
+      assertEqual(await client.closed(), 1008, "close code");
+    },
+  },
+  {
+    name: "clients speaking another protocol version are rejected",
+    script: { exchanges: [] },
+    run: async () => {
+      for (const setup of [{ type: "setup" }, { type: "setup_tools", tools: [] }]) {
+        const client = await TestClient.connect();
+        client.send(setup);
+        assertEqual((await client.expect("error")).code, "protocol_mismatch", "error code");
+        assertEqual(await client.closed(), 4026, "close code");
+      }
+    },
+  },
+  {
+    name: "invalid messages are reported without closing",
+    script: { exchanges: [{ on: "setup" }] },
+    run: async () => {
+      const client = await setUp();
+      client.send({ type: "bogus" });
+      assertEqual((await client.expect("error")).code, "invalid_message", "error code");
+      client.send({ type: "text", text: 42 });
+      assertEqual((await client.expect("error")).code, "invalid_message", "error code");
+      await client.expectNone("disconnected");
+      client.close();
+    },
+  },
+  {
+    name: "text round trip fans out serverContent",
+    script: {
+      exchanges: [
+        { on: "setup" },
+        {
+          on: "clientContent",
+          match: { clientContent: { turns: [{ role: "user", parts: [{ text: "hello" }] }] } },
+          respond: [
+            { inputTranscription: "hello" },
+            { outputTranscription: "Hi there" },
+            { text: "Hi there" },
+            { turnComplete: true },
+          ],
+        },
+      ],
+    },
+    run: async () => {
+      const client = await setUp();
+      client.send({ type: "text", text: "hello" });
+      assertEqual((await client.expect("input_transcription")).text, "hello", "input transcription");
+      assertEqual((await client.expect("output_transcription")).text, "Hi there", "output transcription");
+      assertEqual((await client.expect("response")).text, "Hi there", "response");
+      await client.expect("turn_complete");
+      client.close();
+    },
+  },
+  {
+    name: "text sessions ask Gemini for text responses",
+    script: {
+      exchanges: [
+        { on: "setup", match: { setup: { generationConfig: { responseModalities: ["TEXT"] } } } },
+        {
+          on: "clientContent",
+          respond: [{ text: "Hi " }, { text: "there" }, { turnComplete: true }],
+        },
+      ],
+    },
+    run: async () => {
+      const client = await setUp({ sessionConfig: { responseModalities: ["TEXT"] } });
+      client.send({ type: "text", text: "hello" });
+      assertEqual((await client.expect("response")).text, "Hi ", "first chunk");
+      assertEqual((await client.expect("response")).text, "there", "second chunk");
+      await client.expect("turn_complete");
+      client.close();
+    },
+  },
+  {
+    name: "content turns pass text and inline data through",
+    script: {
+      exchanges: [
+        { on: "setup" },
+        {
+          on: "clientContent",
+          match: {
+            clientContent: {
+              turns: [
+                {
+                  role: "user",
+                  parts: [
+                    { text: "What is in this document?" },
+                    { inlineData: { mimeType: "application/pdf", data: "JVBERi0=" } },
+                  ],
+                },
+              ],
+              turnComplete: false,
+            },
+          },
+          respond: [{ text: "A PDF" }],
+        },
+      ],
+    },
+    run: async () => {
+      const client = await TestClient.connect();
+      client.send({ type: "setup", protocolVersion: PROTOCOL_VERSION });
+      const complete = await client.expect("setup_complete");
+      assertEqual(typeof complete.maxContentBytes, "number", "maxContentBytes");
+      client.send({
+        type: "content",
+        parts: [
+          { text: "What is in this document?" },
+          { inlineData: { mimeType: "application/pdf", data: "JVBERi0=" } },
+        ],
+        turnComplete: false,
+      });
+      assertEqual((await client.expect("response")).text, "A PDF", "response");
+      client.close();
+    },
+  },
+  {
+    name: "malformed content parts are reported without closing",
+    script: { exchanges: [{ on: "setup" }] },
+    run: async () => {
+      const client = await setUp();
+      client.send({ type: "content", parts: [{ inlineData: { mimeType: "pdf", data: "JVBERi0=" } }] });
+      assertEqual((await client.expect("error")).code, "invalid_message", "error code");
+      client.send({ type: "content", parts: [] });
+      assertEqual((await client.expect("error")).code, "invalid_message", "error code");
+      client.close();
+    },
+  },
+  {
+    name: "audio and frames are wrapped in realtimeInput",
+    script: {
+      exchanges: [
+        { on: "setup" },
+        {
+          on: "realtimeInput",
+          match: { realtimeInput: { mediaChunks: [{ mimeType: "audio/pcm;rate=16000" }] } },
+        },
+        {
+          on: "realtimeInput",
+          match: { realtimeInput: { mediaChunks: [{ mimeType: "image/jpeg" }] } },
+          respond: [{ tone: { durationMs: 100 } }],
+        },
+      ],
+    },
+    run: async () => {
+      const client = await setUp();
+      client.send({ type: "audio", data: "AAAAAA==" });
+      client.send({ type: "frame", data: "/9j/AA==" });
+      const audio = await client.expect("audio");
+      assertEqual(audio.mimeType, "audio/pcm;rate=24000", "audio mimeType");
+      client.close();
+    },
+  },
+  {
+    name: "binary audio frames carry raw PCM both ways",
+    script: {
+      exchanges: [
+        { on: "setup" },
+        {
+          on: "realtimeInput",
+          match: {
+            realtimeInput: { mediaChunks: [{ mimeType: "audio/pcm;rate=16000", data: "AAECAw==" }] },
+          },
+          respond: [{ tone: { durationMs: 100 } }],
+        },
+      ],
+    },
+    run: async () => {
+      const client = await TestClient.connect();
+      client.send({ type: "setup", protocolVersion: PROTOCOL_VERSION, binaryAudio: true });
+      assertEqual((await client.expect("setup_complete")).binaryAudio, true, "binaryAudio");
+      client.sendBytes(encodeAudioFrame(new Uint8Array([0, 1, 2, 3]), 16000));
+      assertEqual((await client.expect("audio_frame")).sampleRate, 24000, "sample rate");
+      await client.expectNone("audio");
+      client.close();
+    },
+  },
+  {
+    name: "push-to-talk turns off Gemini's activity detection and relays activity signals",
+    script: {
+      exchanges: [
+        {
+          on: "setup",
+          match: { setup: { realtimeInputConfig: { automaticActivityDetection: { disabled: true } } } },
+        },
+        { on: "realtimeInput", match: { realtimeInput: { activityStart: {} } } },
+        { on: "realtimeInput", match: { realtimeInput: { mediaChunks: [{ data: "AAAAAA==" }] } } },
+        {
+          on: "realtimeInput",
+          match: { realtimeInput: { activityEnd: {} } },
+          respond: [{ tone: { durationMs: 100 } }],
+        },
+      ],
+    },
+    run: async () => {
+      const client = await TestClient.connect();
+      client.send({ type: "setup", protocolVersion: PROTOCOL_VERSION, pushToTalk: true });
+      assertEqual((await client.expect("setup_complete")).pushToTalk, true, "pushToTalk");
+      client.send({ type: "activity_start" });
+      client.send({ type: "audio", data: "AAAAAA==" });
+      client.send({ type: "activity_end" });
+      await client.expect("audio");
+      client.close();
+    },
+  },
+  {
+    name: "activity signals need push-to-talk",
+    script: { exchanges: [{ on: "setup" }] },
+    run: async () => {
+      const client = await setUp();
+      client.send({ type: "activity_start" });
+      assertEqual((await client.expect("error")).code, "invalid_message", "error code");
+      client.close();
+    },
+  },
+  {
+    name: "activity detection settings are forwarded to realtimeInputConfig",
+    script: {
+      exchanges: [
+        {
+          on: "setup",
+          match: {
+            setup: {
+              realtimeInputConfig: {
+                automaticActivityDetection: {
+                  startOfSpeechSensitivity: "START_SENSITIVITY_LOW",
+                  endOfSpeechSensitivity: "END_SENSITIVITY_HIGH",
+                  prefixPaddingMs: 40,
+                  silenceDurationMs: 800,
+                },
+                activityHandling: "NO_INTERRUPTION",
+              },
+            },
+          },
+        },
+      ],
+    },
+    run: async () => {
+      const client = await TestClient.connect();
+      client.send({
+        type: "setup",
+        protocolVersion: PROTOCOL_VERSION,
+        activityDetection: {
+          startSensitivity: "low",
+          endSensitivity: "high",
+          prefixPaddingMs: 40,
+          silenceDurationMs: 800,
+          activityHandling: "no-interrupt",
+        },
+      });
+      await client.expect("setup_complete");
+      client.close();
+    },
+  },
+  {
+    name: "invalid activity detection settings are rejected",
+    script: { exchanges: [] },
+    run: async () => {
+      const client = await TestClient.connect();
+      client.send({
+        type: "setup",
+        protocolVersion: PROTOCOL_VERSION,
+        activityDetection: { startSensitivity: "medium" },
+      });
+      await client.expect("error");
+      assertEqual(await client.closed(), 1008, "close code");
+    },
+  },
+  {
+    name: "client tool calls round trip",
+    script: {
+      exchanges: [
+        { on: "setup" },
+        {
+          on: "clientContent",
+          respond: [{ toolCall: { name: "get_weather", args: { city: "Oslo" }, id: "call-1" } }],
+        },
+        {
+          on: "toolResponse",
+          match: {
+            // Named, with non-object results wrapped like server tool results
+            toolResponse: {
+              functionResponses: [
+                { id: "call-1", name: "get_weather", response: { result: "12 degrees" } },
+              ],
+            },
+          },
+        },
+      ],
+    },
+    run: async () => {
+      const client = await setUp({ tools: [WEATHER_TOOL] });
+      client.send({ type: "text", text: "weather?" });
+      const call = await client.expect("tool_call");
+      assertEqual(
+        [call.toolCallId, call.toolName, call.args],
+        ["call-1", "get_weather", { city: "Oslo" }],
+        "tool call"
+      );
+      client.send({ type: "tool_result", toolCallId: "call-1", result: "12 degrees" });
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      client.close();
+    },
+  },
+  {
+    name: "undeclared tools are answered by the proxy",
+    script: {
+      exchanges: [
+        { on: "setup" },
+        { on: "clientContent", respond: [{ toolCall: { name: "secret_tool", id: "call-2" } }] },
+        {
+          on: "toolResponse",
+          match: { toolResponse: { functionResponses: [{ id: "call-2", name: "secret_tool" }] } },
+        },
+      ],
+    },
+    run: async () => {
+      const client = await setUp();
+      client.send({ type: "text", text: "go" });
+      await client.expectNone("tool_call");
+      client.close();
+    },
+  },
+  {
+    name: "browser control is relayed and answered",
+    script: {
+      exchanges: [
+        {
+          on: "setup",
+          match: { setup: { tools: [{ functionDeclarations: [{ name: "browser_click" }] }] } },
+        },
+        {
+          on: "clientContent",
+          respond: [{ toolCall: { name: "browser_click", args: { selector: "#go" }, id: "call-3" } }],
+        },
+        {
+          on: "toolResponse",
+          match: {
+            toolResponse: {
+              functionResponses: [
+                { id: "call-3", name: "browser_click", response: { success: true } },
+              ],
+            },
+          },
+        },
+      ],
+    },
+    run: async () => {
+      const client = await setUp({ browserControl: { actions: ["click"] } });
+      client.send({ type: "text", text: "click it" });
+      const command = await client.expect("browser_control");
+      assertEqual([command.action, command.args], ["click", { selector: "#go" }], "command");
+      client.send({
+        type: "browser_control_result",
+        toolCallId: command.toolCallId,
+        result: { success: true },
+      });
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      client.close();
+    },
+  },
+  {
+    name: "session handles, usage, interruption and GoAway are forwarded",
+    script: {
+      exchanges: [
+        {
+          on: "setup",
+          respond: [
+            { usage: { totalTokenCount: 42 } },
+            { interrupted: true },
+            { goAway: { timeLeft: "10s" } },
+          ],
+        },
+      ],
+    },
+    run: async () => {
+      const client = await setUp();
+      const handle = await client.expect("session_handle");
+      assertEqual(typeof handle.handle, "string", "handle");
+      assertEqual((await client.expect("usage")).usage, { totalTokenCount: 42 }, "usage");
+      await client.expect("interrupted");
+      assertEqual((await client.expect("go_away")).timeLeftMs, 10000, "timeLeftMs");
+      client.close();
+    },
+  },
+  {
+    name: "session_handle resumes the Gemini session",
+    script: {
+      exchanges: [{ on: "setup", match: { setup: { sessionResumption: { handle: "abc" } } } }],
+    },
+    run: async () => {
+      const client = await setUp({}, "?session_handle=abc");
+      client.close();
+    },
+  },
+  {
+    name: "Gemini closing the session disconnects the client",
+    script: {
+      exchanges: [{ on: "setup", respond: [{ close: { code: 1011, reason: "Internal error" } }] }],
+    },
+    run: async () => {
+      const client = await setUp();
+      assertEqual((await client.expect("disconnected")).reason, "Internal error", "reason");
+      client.close();
+    },
+  },
+];
+
+// =============================================================================
+// Runner
+// =============================================================================
+
+let failed = 0;
+
+for (const testCase of CASES) {
+  try {
+    await mockRequest("reset", {});
+    await mockRequest("script", testCase.script);
+    await testCase.run();
+    // Let the proxy flush what it forwards to Gemini
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    const report = await mockRequest("report");
+    const problems = [
+      ...report.failures.map((failure) => failure.message),
+      ...report.sessions
+        .filter((session) => session.pending > 0)
+        .map((session) => `${session.pending} exchange(s) never reached`),
+    ];
+    if (problems.length > 0) throw new Error(problems.join("; "));
+
+    console.log(`ok    ${testCase.name}`);
+  } catch (error) {
+    failed++;
+    console.log(`FAIL  ${testCase.name}\n      ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+console.log(`\n${CASES.length - failed}/${CASES.length} passed`);
+exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,66 @@
+/**
+ * Ephemeral tokens: short-lived, single-use Gemini API tokens that let the
+ * browser connect to Gemini directly. The proxy only mints them, locking the
+ * model, system instruction and tools into the token. Its session limits and
+ * byte budgets don't cover these sessions - uses: 1 and the TTL are all there is.
+ */
+
+import type { ProxyConfig } from "./config.ts";
+
+/** Endpoint browsers connect to with an ephemeral token */
+export const EPHEMERAL_LIVE_URL =
+  "wss://generativelanguage.googleapis.com/ws/google.ai.generativelanguage.v1alpha.GenerativeService.BidiGenerateContentConstrained";
+
+const AUTH_TOKENS_URL = "https://generativelanguage.googleapis.com/v1alpha/auth_tokens";
+
+// How long the browser has to open its session with a new token
+const NEW_SESSION_WINDOW_MS = 60 * 1000;
+// Token lifetime when sessions have no time limit
+const DEFAULT_TOKEN_TTL_MS = 30 * 60 * 1000;
+
+export interface EphemeralToken {
+  token: string;
+  /** WebSocket URL to open with the token as access_token */
+  url: string;
+  /** Model the token is locked to - the client's setup must name it */
+  model: string;
+  /** ISO timestamp after which the session can't send messages */
+  expiresAt: string;
+}
+
+/**
+ * Mint a single-use token for a setup built by buildGeminiSetup(). Every
+ * field except sessionResumption is locked, so the client can resume a
+ * session but not change how it is configured.
+ */
+export async function createEphemeralToken(
+  config: ProxyConfig,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  setup: Record<string, any>
+): Promise<EphemeralToken> {
+  const locked = { ...setup };
+  delete locked.sessionResumption;
+  const now = Date.now();
+  const ttlMs = config.maxSessionSeconds > 0 ? config.maxSessionSeconds * 1000 : DEFAULT_TOKEN_TTL_MS;
+  const expiresAt = new Date(now + ttlMs).toISOString();
+
+  const res = await fetch(AUTH_TOKENS_URL, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "x-goog-api-key": config.apiKey ?? "",
+    },
+    body: JSON.stringify({
+      uses: 1,
+      expireTime: expiresAt,
+      newSessionExpireTime: new Date(now + NEW_SESSION_WINDOW_MS).toISOString(),
+      bidiGenerateContentSetup: locked,
+      fieldMask: Object.keys(locked).join(","),
+    }),
+  });
+  if (!res.ok) {
+    throw new Error(`Token request failed: ${res.status} ${await res.text()}`);
+  }
+  const data = await res.json();
+  return { token: data.name, url: EPHEMERAL_LIVE_URL, model: setup.model, expiresAt };
+}
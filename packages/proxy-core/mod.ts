@@ -0,0 +1,71 @@
+/**
+ * Gemini Live Proxy - runtime-agnostic core
+ *
+ * Everything the proxy does that doesn't depend on a runtime: configuration,
+ * auth, rate limits, server tools, and translating between the client
+ * protocol and Gemini's BidiGenerateContent messages. The Deno, Node, Bun and
+ * Cloudflare Workers adapters are thin wrappers around GeminiLiveProxy.
+ */
+
+export { GeminiLiveProxy } from "./proxy.ts";
+export type { ClientHandlers, GeminiLiveProxyOptions, ProxyConnection } from "./proxy.ts";
+
+export { ProxySession } from "./session.ts";
+export type { ProxySessionOptions } from "./session.ts";
+
+export {
+  DEFAULT_GEMINI_LIVE_URL,
+  PREBUILT_VOICES,
+  loadConfig,
+  validateActivityDetection,
+  validateSessionConfig,
+} from "./config.ts";
+export type { Backend, EnvReader, ProxyConfig, SessionConfig } from "./config.ts";
+
+export { createAccessTokenProvider, vertexLiveUrl, vertexModelName } from "./vertex.ts";
+
+export { EPHEMERAL_LIVE_URL, createEphemeralToken } from "./ephemeral.ts";
+export type { EphemeralToken } from "./ephemeral.ts";
+
+export { buildGeminiSetup } from "./setup.ts";
+export type { GeminiSetup, GeminiSetupOptions } from "./setup.ts";
+
+export type { AuthUser, AuthVerifier } from "./auth.ts";
+
+export {
+  CLOSE_ORIGIN_NOT_ALLOWED,
+  CLOSE_PROTOCOL_MISMATCH,
+  CLOSE_RATE_LIMITED,
+  CLOSE_UNAUTHORIZED,
+  FRAME_AUDIO,
+  PROTOCOL_VERSION,
+  WS_PROTOCOL,
+  checkProtocolVersion,
+  encodeAudioFrame,
+  parseAudioFrame,
+  parseClientMessage,
+  parseProxyMessage,
+} from "./protocol.ts";
+export type {
+  ActivityDetectionConfig,
+  AudioFrame,
+  BrowserControlAction,
+  ClientMessage,
+  ContentPart,
+  ParseResult,
+  ProxyMessage,
+  SetupMessage,
+  UsageMetadata,
+} from "./protocol.ts";
+
+export { BROWSER_CONTROL_TOOLS } from "./tools.ts";
+export type { BrowserControlTool, ServerTool, ServerToolContext } from "./tools.ts";
+
+export { connectWebSocket, messageData, messageText, wrapSocket } from "./socket.ts";
+export type {
+  ProxySocket,
+  UpstreamConnector,
+  UpstreamHandlers,
+  UpstreamTarget,
+  WebSocketLike,
+} from "./socket.ts";
@@ -0,0 +1,488 @@
+/**
+ * The wire protocol between the client (useGeminiLive / GeminiLiveClient)
+ * and the proxy. Shared by both packages: the React package imports this
+ * file directly, so it must stay free of imports and runtime-specific APIs.
+ *
+ * Bump PROTOCOL_VERSION for any change an older peer can't understand. Both
+ * sides check the version during setup and refuse to talk to a mismatched
+ * peer, instead of silently ignoring messages they don't know.
+ */
+
+export const PROTOCOL_VERSION = 1;
+
+// Subprotocol the proxy speaks; the auth token rides along as "bearer.<token>"
+export const WS_PROTOCOL = "gemini-live";
+
+// Close codes for rejected connections (clients should not auto-reconnect)
+export const CLOSE_UNAUTHORIZED = 4001;
+export const CLOSE_ORIGIN_NOT_ALLOWED = 4003;
+export const CLOSE_PROTOCOL_MISMATCH = 4026;
+export const CLOSE_RATE_LIMITED = 4029;
+
+// =============================================================================
+// Shared Types
+// =============================================================================
+
+/** Browser control action types */
+export type BrowserControlAction =
+  | "click"
+  | "type"
+  | "scroll"
+  | "highlight"
+  | "get_dom"
+  | "get_errors";
+
+/** Token count for a single modality */
+export interface ModalityTokenCount {
+  /** 'TEXT' | 'AUDIO' | 'IMAGE' | 'VIDEO' | 'DOCUMENT' */
+  modality: string;
+  /** Omitted by Gemini when zero */
+  tokenCount?: number;
+}
+
+/**
+ * Token usage reported by Gemini (usageMetadata), forwarded per response
+ */
+export interface UsageMetadata {
+  /** Input tokens, including the conversation context */
+  promptTokenCount?: number;
+  /** Input tokens served from cache */
+  cachedContentTokenCount?: number;
+  /** Output tokens */
+  responseTokenCount?: number;
+  /** Input tokens from tool use results */
+  toolUsePromptTokenCount?: number;
+  /** Thinking tokens (billed as output) */
+  thoughtsTokenCount?: number;
+  totalTokenCount?: number;
+  promptTokensDetails?: ModalityTokenCount[];
+  cacheTokensDetails?: ModalityTokenCount[];
+  responseTokensDetails?: ModalityTokenCount[];
+  toolUsePromptTokensDetails?: ModalityTokenCount[];
+}
+
+/** A function the client declares for the AI to call */
+export interface ToolDeclaration {
+  name: string;
+  description: string;
+  parameters?: Record<string, unknown>;
+}
+
+/** Per-session config the client requests (validated against the proxy's allowlist) */
+export interface SessionConfigRequest {
+  model?: string;
+  voice?: string;
+  systemInstruction?: string;
+  temperature?: number;
+  responseModalities?: string[];
+  mediaResolution?: string;
+  languageCode?: string;
+  thinkingBudget?: number;
+}
+
+/**
+ * Gemini's server-side voice activity detection, forwarded into
+ * realtimeInputConfig (independent of any VAD running in the browser)
+ */
+export interface ActivityDetectionConfig {
+  /** How readily the start of speech is detected */
+  startSensitivity?: "high" | "low";
+  /** How readily the end of speech is detected */
+  endSensitivity?: "high" | "low";
+  /** Speech needed before a start of speech is committed (ms) */
+  prefixPaddingMs?: number;
+  /** Silence needed before an end of speech is committed (ms) */
+  silenceDurationMs?: number;
+  /** Whether the user talking over the AI interrupts it */
+  activityHandling?: "interrupt" | "no-interrupt";
+}
+
+// =============================================================================
+// Client -> Proxy
+// =============================================================================
+
+/** First message on every connection */
+export interface SetupMessage {
+  type: "setup";
+  /** Missing on clients from before the protocol was versioned */
+  protocolVersion?: number;
+  tools?: ToolDeclaration[];
+  /** Browser control actions to declare */
+  browserControl?: { actions: BrowserControlAction[] };
+  sessionConfig?: SessionConfigRequest;
+  /** Server-side voice activity detection settings */
+  activityDetection?: ActivityDetectionConfig;
+  /** Ask for audio as binary frames instead of base64 in JSON */
+  binaryAudio?: boolean;
+  /**
+   * Turn off Gemini's automatic activity detection; the client marks each
+   * turn with activity_start / activity_end instead
+   */
+  pushToTalk?: boolean;
+}
+
+export interface AudioMessage {
+  type: "audio";
+  /** Base64 PCM16 */
+  data: string;
+  mimeType?: string;
+}
+
+export interface FrameMessage {
+  type: "frame";
+  /** Base64 JPEG */
+  data: string;
+}
+
+export interface TextMessage {
+  type: "text";
+  text: string;
+}
+
+/** One part of a content turn: text, or base64 data of any MIME type */
+export type ContentPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string } };
+
+/** A user turn mixing text, images, documents and other inline data */
+export interface ContentMessage {
+  type: "content";
+  parts: ContentPart[];
+  /** Whether the AI should answer now, or wait for more content (default true) */
+  turnComplete?: boolean;
+}
+
+export interface ToolResultMessage {
+  type: "tool_result";
+  toolCallId: string;
+  result?: unknown;
+}
+
+export interface BrowserControlResultMessage {
+  type: "browser_control_result";
+  toolCallId: string;
+  result?: unknown;
+}
+
+/** The user started talking (push-to-talk only) */
+export interface ActivityStartMessage {
+  type: "activity_start";
+}
+
+/** The user stopped talking and the AI should respond (push-to-talk only) */
+export interface ActivityEndMessage {
+  type: "activity_end";
+}
+
+export type ClientMessage =
+  | SetupMessage
+  | AudioMessage
+  | FrameMessage
+  | TextMessage
+  | ContentMessage
+  | ToolResultMessage
+  | BrowserControlResultMessage
+  | ActivityStartMessage
+  | ActivityEndMessage;
+
+// =============================================================================
+// Proxy -> Client
+// =============================================================================
+
+export interface SetupCompleteMessage {
+  type: "setup_complete";
+  /** Missing on proxies from before the protocol was versioned */
+  protocolVersion?: number;
+  /** Whether the session was resumed from a handle */
+  resumed: boolean;
+  /** Names of server-side tools */
+  serverTools: string[];
+  /** Whether audio now travels as binary frames (both directions) */
+  binaryAudio?: boolean;
+  /** Whether automatic activity detection is off and activity_* messages are expected */
+  pushToTalk?: boolean;
+  /**
+   * Largest inline data a content message may carry (decoded bytes, 0 for no
+   * limit). Missing on proxies that can't relay content messages.
+   */
+  maxContentBytes?: number;
+}
+
+export interface ResponseMessage {
+  type: "response";
+  text: string;
+}
+
+export interface AudioOutputMessage {
+  type: "audio";
+  /** Base64 PCM16, e.g. "audio/pcm;rate=24000" */
+  data: string;
+  mimeType: string;
+}
+
+export interface TranscriptionMessage {
+  type: "input_transcription" | "output_transcription";
+  text: string;
+}
+
+export interface InterruptedMessage {
+  type: "interrupted";
+}
+
+export interface TurnCompleteMessage {
+  type: "turn_complete";
+}
+
+export interface UsageMessage {
+  type: "usage";
+  usage: UsageMetadata;
+}
+
+export interface GoAwayMessage {
+  type: "go_away";
+  /** Time until Gemini ends the session */
+  timeLeftMs: number | null;
+}
+
+export interface SessionHandleMessage {
+  type: "session_handle";
+  handle: string;
+  resumable?: boolean;
+}
+
+export interface ErrorMessage {
+  type: "error";
+  message: string;
+  /** Machine-readable error code */
+  code?: string;
+}
+
+export interface DisconnectedMessage {
+  type: "disconnected";
+  reason: string;
+}
+
+export interface ToolCallMessage {
+  type: "tool_call";
+  toolCallId: string;
+  toolName: string;
+  args: Record<string, unknown>;
+}
+
+export interface ServerToolCallMessage {
+  type: "server_tool_call";
+  toolCallId: string;
+  toolName: string;
+  /** Whether the server-side tool succeeded */
+  success: boolean;
+}
+
+export interface BrowserControlMessage {
+  type: "browser_control";
+  toolCallId: string;
+  action: BrowserControlAction;
+  args: Record<string, unknown>;
+}
+
+export type ProxyMessage =
+  | SetupCompleteMessage
+  | ResponseMessage
+  | AudioOutputMessage
+  | TranscriptionMessage
+  | InterruptedMessage
+  | TurnCompleteMessage
+  | UsageMessage
+  | GoAwayMessage
+  | SessionHandleMessage
+  | ErrorMessage
+  | DisconnectedMessage
+  | ToolCallMessage
+  | ServerToolCallMessage
+  | BrowserControlMessage;
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+// Expected type of each field; "?" marks optional fields (null counts as absent)
+type FieldKind = "string" | "number" | "boolean" | "object" | "array" | "unknown";
+type Schema = Record<string, FieldKind | `${FieldKind}?`>;
+
+const CLIENT_SCHEMAS: Record<ClientMessage["type"], Schema> = {
+  setup: {
+    protocolVersion: "number?",
+    tools: "array?",
+    browserControl: "object?",
+    sessionConfig: "object?",
+    activityDetection: "object?",
+    binaryAudio: "boolean?",
+    pushToTalk: "boolean?",
+  },
+  audio: { data: "string", mimeType: "string?" },
+  frame: { data: "string" },
+  text: { text: "string" },
+  content: { parts: "array", turnComplete: "boolean?" },
+  tool_result: { toolCallId: "string", result: "unknown?" },
+  browser_control_result: { toolCallId: "string", result: "unknown?" },
+  activity_start: {},
+  activity_end: {},
+};
+
+const PROXY_SCHEMAS: Record<ProxyMessage["type"], Schema> = {
+  setup_complete: {
+    protocolVersion: "number?",
+    resumed: "boolean",
+    serverTools: "array",
+    binaryAudio: "boolean?",
+    pushToTalk: "boolean?",
+    maxContentBytes: "number?",
+  },
+  response: { text: "string" },
+  audio: { data: "string", mimeType: "string" },
+  input_transcription: { text: "string" },
+  output_transcription: { text: "string" },
+  interrupted: {},
+  turn_complete: {},
+  usage: { usage: "object" },
+  go_away: { timeLeftMs: "number?" },
+  session_handle: { handle: "string", resumable: "boolean?" },
+  error: { message: "string", code: "string?" },
+  disconnected: { reason: "string" },
+  tool_call: { toolCallId: "string", toolName: "string", args: "object" },
+  server_tool_call: { toolCallId: "string", toolName: "string", success: "boolean" },
+  browser_control: { toolCallId: "string", action: "string", args: "object" },
+};
+
+export type ParseResult<T> = { ok: true; message: T } | { ok: false; error: string };
+
+function kindOf(value: unknown): FieldKind {
+  if (Array.isArray(value)) return "array";
+  const type = typeof value;
+  return type === "string" || type === "number" || type === "boolean" || type === "object"
+    ? type
+    : "unknown";
+}
+
+function parseMessage<T>(raw: string, schemas: Record<string, Schema>): ParseResult<T> {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return { ok: false, error: "Message is not valid JSON" };
+  }
+  if (kindOf(data) !== "object" || data === null) {
+    return { ok: false, error: "Message is not an object" };
+  }
+
+  const message = data as Record<string, unknown>;
+  const type = message.type;
+  if (typeof type !== "string" || !Object.prototype.hasOwnProperty.call(schemas, type)) {
+    return { ok: false, error: `Unknown message type: ${JSON.stringify(type)}` };
+  }
+
+  for (const [field, spec] of Object.entries(schemas[type])) {
+    const optional = spec.endsWith("?");
+    const kind = spec.replace("?", "") as FieldKind;
+    const value = message[field];
+    if (value === undefined || value === null) {
+      if (optional) continue;
+      return { ok: false, error: `${type} message is missing ${field}` };
+    }
+    if (kind !== "unknown" && kindOf(value) !== kind) {
+      return { ok: false, error: `${type} message has an invalid ${field} (expected ${kind})` };
+    }
+  }
+
+  return { ok: true, message: message as T };
+}
+
+/** Parse and validate a message from the client */
+export function parseClientMessage(raw: string): ParseResult<ClientMessage> {
+  return parseMessage<ClientMessage>(raw, CLIENT_SCHEMAS);
+}
+
+/** Parse and validate a message from the proxy */
+export function parseProxyMessage(raw: string): ParseResult<ProxyMessage> {
+  return parseMessage<ProxyMessage>(raw, PROXY_SCHEMAS);
+}
+
+/** Error message when the peer speaks another protocol version, or null */
+export function checkProtocolVersion(version: number | undefined, peer: string): string | null {
+  if (version === PROTOCOL_VERSION) return null;
+  const theirs = version === undefined ? "an unversioned protocol" : `protocol v${version}`;
+  return (
+    `Protocol mismatch: the ${peer} speaks ${theirs}, expected v${PROTOCOL_VERSION}. ` +
+    "Deploy matching versions of gemini-live-react and the proxy."
+  );
+}
+
+// =============================================================================
+// Binary Frames
+// =============================================================================
+
+// Audio travels as binary WebSocket frames when the client asks for it in
+// setup (binaryAudio) and the proxy confirms it in setup_complete:
+//   byte 0     frame type (FRAME_AUDIO)
+//   bytes 1-3  reserved, 0
+//   bytes 4-7  sample rate, uint32 little-endian
+//   bytes 8-   PCM16 little-endian
+// The 8-byte header keeps the samples aligned for Int16Array views.
+
+export const FRAME_AUDIO = 1;
+const FRAME_HEADER_BYTES = 8;
+
+export interface AudioFrame {
+  sampleRate: number;
+  /** PCM16 little-endian */
+  pcm: Uint8Array;
+}
+
+/** Wrap raw PCM16 in a binary audio frame */
+export function encodeAudioFrame(pcm: Uint8Array, sampleRate: number): Uint8Array {
+  const frame = new Uint8Array(FRAME_HEADER_BYTES + pcm.byteLength);
+  frame[0] = FRAME_AUDIO;
+  new DataView(frame.buffer).setUint32(4, sampleRate, true);
+  frame.set(pcm, FRAME_HEADER_BYTES);
+  return frame;
+}
+
+/** Parse and validate a binary frame */
+export function parseAudioFrame(data: Uint8Array): ParseResult<AudioFrame> {
+  if (data.byteLength < FRAME_HEADER_BYTES) {
+    return { ok: false, error: "Binary frame is shorter than its header" };
+  }
+  if (data[0] !== FRAME_AUDIO) {
+    return { ok: false, error: `Unknown binary frame type: ${data[0]}` };
+  }
+  const sampleRate = new DataView(data.buffer, data.byteOffset, data.byteLength).getUint32(4, true);
+  if (sampleRate === 0) {
+    return { ok: false, error: "Binary audio frame has no sample rate" };
+  }
+  const pcm = data.subarray(FRAME_HEADER_BYTES);
+  if (pcm.byteLength % 2 !== 0) {
+    return { ok: false, error: "Binary audio frame has an odd number of bytes" };
+  }
+  return { ok: true, message: { sampleRate, pcm } };
+}
+
+// =============================================================================
+// Gemini Message Helpers
+// =============================================================================
+
+// Used wherever client messages are translated to Gemini's: in the proxy, and
+// in the client itself for direct connections
+
+/** Gemini expects functionResponse.response to be an object */
+export function toFunctionResponse(result: unknown): Record<string, unknown> {
+  if (result !== null && typeof result === "object" && !Array.isArray(result)) {
+    return result as Record<string, unknown>;
+  }
+  return { result };
+}
+
+/** Parse a protobuf Duration string such as "12.5s" into milliseconds */
+export function parseDurationMs(duration: unknown): number | null {
+  if (typeof duration !== "string") return null;
+  const seconds = parseFloat(duration);
+  return Number.isFinite(seconds) ? Math.round(seconds * 1000) : null;
+}
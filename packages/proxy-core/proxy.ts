@@ -0,0 +1,424 @@
+/**
+ * GeminiLiveProxy - the runtime-agnostic proxy. Runtime adapters turn HTTP
+ * requests into accept() calls and feed the upgraded socket's events to the
+ * returned handlers.
+ */
+
+import {
+  createAuthVerifier,
+  getAuthToken,
+  getCorsHeaders,
+  getOfferedProtocols,
+  type AuthUser,
+  type AuthVerifier,
+} from "./auth.ts";
+import {
+  loadConfig,
+  normalizeIp,
+  validateActivityDetection,
+  validateSessionConfig,
+  type EnvReader,
+  type ProxyConfig,
+} from "./config.ts";
+import { createEphemeralToken } from "./ephemeral.ts";
+import {
+  CLOSE_ORIGIN_NOT_ALLOWED,
+  CLOSE_RATE_LIMITED,
+  CLOSE_UNAUTHORIZED,
+  WS_PROTOCOL,
+} from "./protocol.ts";
+import { ProxySession } from "./session.ts";
+import { buildGeminiSetup } from "./setup.ts";
+import {
+  connectWebSocket,
+  messageData,
+  type ProxySocket,
+  type UpstreamConnector,
+  type UpstreamTarget,
+} from "./socket.ts";
+import type { ServerTool } from "./tools.ts";
+import { createAccessTokenProvider } from "./vertex.ts";
+
+export interface GeminiLiveProxyOptions {
+  /** Where configuration comes from, e.g. (name) => Deno.env.get(name) */
+  env: EnvReader;
+  /** How to open the Gemini connection (default: the global WebSocket) */
+  connectUpstream?: UpstreamConnector;
+}
+
+/** Call these from the upgraded client socket's events */
+export interface ClientHandlers {
+  onOpen(): void;
+  /** Text frames as strings, binary frames as ArrayBuffer or bytes */
+  onMessage(data: unknown): void;
+  onError(error: unknown): void;
+  onClose(): void;
+}
+
+export interface ProxyConnection {
+  /** Subprotocol to echo when upgrading, if the client offered ours */
+  protocol: string | undefined;
+  /** Wire up the upgraded client socket */
+  attach(socket: ProxySocket): ClientHandlers;
+  /** Give up the connection without attaching, e.g. when the upgrade failed (no-op once attached) */
+  release(): void;
+}
+
+// Session slots reserved by accept() are given back when no socket attaches
+// within this long (an upgrade that failed without the adapter noticing)
+const ATTACH_TIMEOUT_MS = 10_000;
+
+interface Rejection {
+  code: string;
+  closeCode: number;
+  message: string;
+}
+
+export class GeminiLiveProxy {
+  readonly config: ProxyConfig;
+
+  private connectUpstream: UpstreamConnector;
+  private getAccessToken: (() => Promise<string>) | null;
+  private serverTools = new Map<string, ServerTool>();
+  private authVerifier: AuthVerifier | null;
+  // Open sessions per user (or IP) on this instance
+  private activeSessions = new Map<string, number>();
+
+  constructor(options: GeminiLiveProxyOptions) {
+    this.config = loadConfig(options.env);
+    this.connectUpstream = options.connectUpstream ?? connectWebSocket;
+    this.authVerifier = createAuthVerifier(this.config);
+    this.getAccessToken =
+      this.config.backend === "vertex" ? createAccessTokenProvider(this.config) : null;
+  }
+
+  /** Run a tool in the proxy instead of the browser */
+  registerServerTool(tool: ServerTool): void {
+    this.serverTools.set(tool.name, tool);
+  }
+
+  /** Replace the auth verifier (null disables auth) */
+  setAuthVerifier(verifier: AuthVerifier | null): void {
+    this.authVerifier = verifier;
+  }
+
+  corsHeaders(req: Request): Record<string, string> {
+    return getCorsHeaders(this.config, req.headers.get("origin"));
+  }
+
+  /**
+   * The client IP for per-IP limits: the socket's remote address, unless
+   * that's one of PROXY_TRUSTED_PROXIES - then the rightmost X-Forwarded-For
+   * hop that isn't (entries left of it are whatever the client sent).
+   */
+  clientIp(req: Request, remoteAddress: string | undefined): string {
+    const peer = remoteAddress ? normalizeIp(remoteAddress) : "unknown";
+    const { trustedProxies } = this.config;
+    if (!trustedProxies.includes(peer)) return peer;
+
+    const hops = (req.headers.get("x-forwarded-for") ?? "")
+      .split(",")
+      .map((hop) => normalizeIp(hop.trim()))
+      .filter(Boolean);
+    for (let i = hops.length - 1; i >= 0; i--) {
+      if (!trustedProxies.includes(hops[i])) return hops[i];
+    }
+    return hops[0] ?? peer;
+  }
+
+  /**
+   * Answer requests that can't become a proxied session: CORS preflight,
+   * ephemeral token requests (POST), non-WebSocket requests and missing
+   * backend credentials. Resolves to null when the adapter should go on to
+   * accept() and upgrade.
+   */
+  async handleHttp(req: Request): Promise<Response | null> {
+    const corsHeaders = this.corsHeaders(req);
+
+    // Handle CORS preflight
+    if (req.method === "OPTIONS") {
+      return new Response(null, { headers: corsHeaders });
+    }
+
+    if (req.method === "POST") {
+      return await this.issueToken(req, corsHeaders);
+    }
+
+    // Check for WebSocket upgrade
+    const upgradeHeader = req.headers.get("upgrade") || "";
+    if (upgradeHeader.toLowerCase() !== "websocket") {
+      return new Response("Expected WebSocket upgrade", {
+        status: 426,
+        headers: corsHeaders,
+      });
+    }
+
+    if (this.config.backend === "vertex" && !this.config.vertexProject) {
+      console.error("VERTEX_PROJECT not configured");
+      return new Response("Vertex AI project not configured", {
+        status: 500,
+        headers: corsHeaders,
+      });
+    }
+    if (this.config.backend === "gemini" && !this.config.apiKey) {
+      console.error("GOOGLE_AI_API_KEY not configured");
+      return new Response("API key not configured", {
+        status: 500,
+        headers: corsHeaders,
+      });
+    }
+
+    return null;
+  }
+
+  /**
+   * Check origin, auth and session limits for an upgrade request. Browsers
+   * can't read HTTP status codes of failed upgrades, so rejected connections
+   * are still upgraded and then closed with a specific code.
+   */
+  async accept(req: Request, clientIp: string): Promise<ProxyConnection> {
+    const url = new URL(req.url);
+    const { maxSessionsPerUser } = this.config;
+    const { user, rejection: authRejection } = await this.authorize(req, url);
+    let rejection = authRejection;
+
+    // Concurrent sessions are capped per user, or per IP without auth
+    const limitKey = user ? `user:${user.id}` : `ip:${clientIp}`;
+    if (
+      !rejection &&
+      maxSessionsPerUser > 0 &&
+      (this.activeSessions.get(limitKey) ?? 0) >= maxSessionsPerUser
+    ) {
+      console.warn("Too many sessions:", limitKey);
+      rejection = {
+        code: "too_many_sessions",
+        closeCode: CLOSE_RATE_LIMITED,
+        message: `Too many concurrent sessions (max ${maxSessionsPerUser})`,
+      };
+    }
+
+    // Take the slot now: parallel upgrades would all pass the check above
+    // before any of them started a session
+    let release = rejection ? null : this.reserveSession(limitKey);
+    let attached = false;
+    const giveBack = () => {
+      if (attached) return;
+      release?.();
+      release = null;
+    };
+    const attachTimer = release ? setTimeout(giveBack, ATTACH_TIMEOUT_MS) : null;
+
+    console.log(
+      "New connection - user:",
+      user?.id || "anonymous",
+      "session:",
+      url.searchParams.get("session_id") || "none",
+      "resuming:",
+      url.searchParams.has("session_handle")
+    );
+
+    // Echo our subprotocol when the client offered it (required when the
+    // token was sent as a subprotocol)
+    const protocol = getOfferedProtocols(req).includes(WS_PROTOCOL) ? WS_PROTOCOL : undefined;
+
+    return {
+      protocol,
+      attach: (socket) => {
+        if (rejection) return this.reject(socket, rejection);
+        if (attachTimer !== null) clearTimeout(attachTimer);
+        attached = true;
+        // Attached after the timeout gave the slot back: it counts again
+        if (!release) release = this.reserveSession(limitKey);
+        return this.startSession(socket, user, url, release);
+      },
+      release: giveBack,
+    };
+  }
+
+  /** Count a session against its limit key until the returned release() runs */
+  private reserveSession(limitKey: string): () => void {
+    this.activeSessions.set(limitKey, (this.activeSessions.get(limitKey) ?? 0) + 1);
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      const count = (this.activeSessions.get(limitKey) ?? 1) - 1;
+      if (count > 0) {
+        this.activeSessions.set(limitKey, count);
+      } else {
+        this.activeSessions.delete(limitKey);
+      }
+    };
+  }
+
+  /** Check the request's origin and auth token */
+  private async authorize(
+    req: Request,
+    url: URL
+  ): Promise<{ user: AuthUser | null; rejection: Rejection | null }> {
+    const origin = req.headers.get("origin");
+    const { allowedOrigins } = this.config;
+
+    if (allowedOrigins && (!origin || !allowedOrigins.includes(origin))) {
+      console.warn("Rejected origin:", origin);
+      return {
+        user: null,
+        rejection: {
+          code: "origin_not_allowed",
+          closeCode: CLOSE_ORIGIN_NOT_ALLOWED,
+          message: "Origin not allowed",
+        },
+      };
+    }
+    if (!this.authVerifier) return { user: null, rejection: null };
+
+    const token = getAuthToken(req, url);
+    let user: AuthUser | null = null;
+    try {
+      user = token ? await this.authVerifier(token, req) : null;
+    } catch (error) {
+      console.error("Auth verification failed:", error);
+    }
+    if (user) return { user, rejection: null };
+
+    console.warn("Rejected connection:", token ? "invalid token" : "missing token");
+    return {
+      user: null,
+      rejection: {
+        code: "unauthorized",
+        closeCode: CLOSE_UNAUTHORIZED,
+        message: token ? "Invalid auth token" : "Missing auth token",
+      },
+    };
+  }
+
+  /**
+   * Mint an ephemeral token so the client can talk to Gemini directly. The
+   * body carries the same tools, browserControl, sessionConfig,
+   * activityDetection and pushToTalk as the client's setup message. Server
+   * tools can't run without the relay, so they aren't declared. The session
+   * then bypasses the proxy entirely: the concurrent-session cap, byte
+   * budgets and content size checks don't apply, only the token's single
+   * use and TTL.
+   */
+  private async issueToken(req: Request, corsHeaders: Record<string, string>): Promise<Response> {
+    const json = (status: number, body: unknown) =>
+      new Response(JSON.stringify(body), {
+        status,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    const error = (status: number, code: string, message: string) =>
+      json(status, { error: { code, message } });
+
+    if (!this.config.ephemeralTokens || this.config.backend !== "gemini") {
+      return error(404, "ephemeral_tokens_disabled", "Ephemeral tokens are not enabled");
+    }
+    if (!this.config.apiKey) {
+      console.error("GOOGLE_AI_API_KEY not configured");
+      return error(500, "not_configured", "API key not configured");
+    }
+
+    const { user, rejection } = await this.authorize(req, new URL(req.url));
+    if (rejection) {
+      return error(
+        rejection.closeCode === CLOSE_UNAUTHORIZED ? 401 : 403,
+        rejection.code,
+        rejection.message
+      );
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    let body: any;
+    try {
+      body = await req.json();
+    } catch {
+      return error(400, "invalid_request", "Expected a JSON body");
+    }
+
+    const validation = validateSessionConfig(this.config, body?.sessionConfig, null);
+    if ("error" in validation) {
+      console.warn("Rejected session config:", validation.error);
+      return error(400, "invalid_session_config", `Invalid session config: ${validation.error}`);
+    }
+    const detection = validateActivityDetection(body?.activityDetection);
+    if ("error" in detection) {
+      console.warn("Rejected activity detection:", detection.error);
+      const message = `Invalid activity detection: ${detection.error}`;
+      return error(400, "invalid_activity_detection", message);
+    }
+
+    const { setup } = buildGeminiSetup({
+      config: this.config,
+      session: validation.config,
+      serverTools: new Map(),
+      browserActions: new Set(body.browserControl?.actions || []),
+      clientTools: Array.isArray(body.tools) ? body.tools : [],
+      pushToTalk: body.pushToTalk === true,
+      activityDetection: detection.config,
+    });
+
+    try {
+      const token = await createEphemeralToken(this.config, setup);
+      console.log("Issued ephemeral token - user:", user?.id || "anonymous", "model:", token.model);
+      return json(200, token);
+    } catch (err) {
+      console.error("Ephemeral token request failed:", err);
+      return error(502, "token_failed", "Could not create a token");
+    }
+  }
+
+  /** Gemini API: key in the URL; Vertex AI: OAuth bearer token */
+  private async resolveUpstream(): Promise<UpstreamTarget> {
+    const { geminiLiveUrl, apiKey } = this.config;
+    if (this.getAccessToken) {
+      const token = await this.getAccessToken();
+      return { url: geminiLiveUrl, headers: { Authorization: `Bearer ${token}` } };
+    }
+    return { url: `${geminiLiveUrl}?key=${apiKey}` };
+  }
+
+  private reject(socket: ProxySocket, rejection: Rejection): ClientHandlers {
+    const { code, closeCode, message } = rejection;
+    return {
+      onOpen: () => {
+        socket.send(JSON.stringify({ type: "error", code, message }));
+        socket.close(closeCode, message);
+      },
+      onMessage: () => {},
+      onError: () => {},
+      onClose: () => {},
+    };
+  }
+
+  private startSession(
+    socket: ProxySocket,
+    user: AuthUser | null,
+    url: URL,
+    release: () => void
+  ): ClientHandlers {
+    const session = new ProxySession({
+      config: this.config,
+      serverTools: this.serverTools,
+      client: socket,
+      connectUpstream: this.connectUpstream,
+      resolveUpstream: () => this.resolveUpstream(),
+      user,
+      url,
+      onEnd: release,
+    });
+
+    return {
+      onOpen: () => session.handleClientOpen(),
+      onMessage: (data) => {
+        const message = messageData(data);
+        if (typeof message === "string") {
+          session.handleClientMessage(message);
+        } else {
+          session.handleClientFrame(message);
+        }
+      },
+      onError: (error) => session.handleClientError(error),
+      onClose: () => session.handleClientClose(),
+    };
+  }
+}
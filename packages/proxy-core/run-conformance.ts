@@ -0,0 +1,177 @@
+/**
+ * Conformance Runner
+ *
+ * Starts the mock Gemini Live server and each requested proxy adapter in
+ * turn, runs conformance.ts against it and stops both again.
+ *
+ * Usage (Node 22.18+ runs TypeScript directly):
+ *   node run-conformance.ts [node] [deno] [bun] [workers]
+ *
+ * Defaults to the Node adapter, which needs `ws` installed. The Deno and Bun
+ * adapters need their runtime on PATH; Workers runs under `wrangler dev`
+ * (fetched with npx). Exits with code 1 when any adapter fails.
+ */
+
+import { spawn, type ChildProcess } from "node:child_process";
+import { connect } from "node:net";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const PACKAGES = join(dirname(fileURLToPath(import.meta.url)), "..");
+const MOCK_PORT = 9100;
+// wrangler dev takes a while, more so when npx has to fetch it first
+const STARTUP_TIMEOUT_MS = 60_000;
+
+interface Adapter {
+  command: string;
+  /** Gets the proxy's configuration, for runtimes that don't read process.env */
+  args(env: Record<string, string>): string[];
+  port: number;
+}
+
+const ADAPTERS: Record<string, Adapter> = {
+  node: {
+    command: process.execPath,
+    args: () => [join(PACKAGES, "proxy-node/index.ts")],
+    port: 8080,
+  },
+  // std's serve() listens on 8000 and the Deno adapter doesn't read PORT
+  deno: {
+    command: "deno",
+    args: () => [
+      "run",
+      "--allow-net",
+      "--allow-env",
+      "--allow-read",
+      join(PACKAGES, "proxy-deno/index.ts"),
+    ],
+    port: 8000,
+  },
+  bun: {
+    command: "bun",
+    args: () => ["run", join(PACKAGES, "proxy-bun/index.ts")],
+    port: 8080,
+  },
+  // Worker vars come from the command line, not the environment
+  workers: {
+    command: "npx",
+    args: (env) => [
+      "--yes",
+      "wrangler@4",
+      "dev",
+      join(PACKAGES, "proxy-workers/index.ts"),
+      "--port",
+      "8787",
+      "--compatibility-date",
+      "2025-01-01",
+      ...Object.entries(env).flatMap(([name, value]) => ["--var", `${name}:${value}`]),
+    ],
+    port: 8787,
+  },
+};
+
+function start(
+  command: string,
+  args: string[],
+  env: Record<string, string>,
+  server = false
+): ChildProcess {
+  const child = spawn(command, args, {
+    env: { ...process.env, ...env },
+    stdio: "inherit",
+    // Servers get their own process group, so stop() reaches what they
+    // spawn too (npx -> wrangler -> workerd)
+    detached: server,
+  });
+  // A missing runtime surfaces as an error event (and no pid), never an exit
+  child.once("error", (err) => console.error(`Could not run ${command}: ${err.message}`));
+  return child;
+}
+
+function stop(child: ChildProcess): Promise<void> {
+  if (child.pid === undefined || child.exitCode !== null || child.signalCode !== null) {
+    return Promise.resolve();
+  }
+  return new Promise((resolve) => {
+    child.once("exit", () => resolve());
+    process.kill(-child.pid!, "SIGTERM");
+  });
+}
+
+/** Resolves once something accepts connections on the port */
+async function waitForPort(port: number, child: ChildProcess): Promise<void> {
+  const deadline = Date.now() + STARTUP_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    if (child.pid === undefined) throw new Error("could not be started");
+    if (child.exitCode !== null) throw new Error(`exited with code ${child.exitCode}`);
+    const open = await new Promise<boolean>((resolve) => {
+      const socket = connect(port, "localhost");
+      socket.once("connect", () => {
+        socket.destroy();
+        resolve(true);
+      });
+      socket.once("error", () => resolve(false));
+    });
+    if (open) return;
+    await new Promise((resolve) => setTimeout(resolve, 200));
+  }
+  throw new Error(`nothing listening on port ${port} after ${STARTUP_TIMEOUT_MS}ms`);
+}
+
+function run(command: string, args: string[], env: Record<string, string>): Promise<number> {
+  return new Promise((resolve) => {
+    const child = start(command, args, env);
+    child.once("exit", (code) => resolve(code ?? 1));
+    child.once("error", () => resolve(1));
+  });
+}
+
+async function runAdapter(name: string, adapter: Adapter): Promise<boolean> {
+  console.log(`\n# ${name} adapter`);
+  const mock = start(
+    process.execPath,
+    [join(PACKAGES, "mock-gemini/node.ts")],
+    { MOCK_GEMINI_PORT: String(MOCK_PORT) },
+    true
+  );
+  const proxyEnv = {
+    GEMINI_LIVE_URL: `ws://localhost:${MOCK_PORT}/ws`,
+    GOOGLE_AI_API_KEY: "unused",
+    PROXY_AUTH_MODE: "none",
+    PORT: String(adapter.port),
+  };
+  const proxy = start(adapter.command, adapter.args(proxyEnv), proxyEnv, true);
+
+  try {
+    await waitForPort(MOCK_PORT, mock);
+    await waitForPort(adapter.port, proxy);
+    const code = await run(process.execPath, [join(PACKAGES, "proxy-core/conformance.ts")], {
+      PROXY_URL: `ws://localhost:${adapter.port}`,
+      MOCK_URL: `http://localhost:${MOCK_PORT}`,
+    });
+    return code === 0;
+  } catch (err) {
+    console.error(`${name} adapter did not start: ${(err as Error).message}`);
+    return false;
+  } finally {
+    await Promise.all([stop(proxy), stop(mock)]);
+  }
+}
+
+const names = process.argv.slice(2);
+const unknown = names.filter((name) => !(name in ADAPTERS));
+if (unknown.length > 0) {
+  console.error(`Unknown adapter: ${unknown.join(", ")} (expected ${Object.keys(ADAPTERS).join(", ")})`);
+  process.exit(1);
+}
+
+const failed: string[] = [];
+for (const name of names.length > 0 ? names : ["node"]) {
+  if (!(await runAdapter(name, ADAPTERS[name]))) failed.push(name);
+}
+
+if (failed.length > 0) {
+  console.error(`\nConformance failed for: ${failed.join(", ")}`);
+  process.exit(1);
+}
+console.log("\nAll adapters conform");
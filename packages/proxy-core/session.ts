@@ -0,0 +1,774 @@
+/**
+ * One proxied conversation: translates between the client protocol (setup,
+ * audio, frame, text, tool_result, ...) and Gemini's BidiGenerateContent
+ * messages, and enforces the per-session limits.
+ */
+
+import type { AuthUser } from "./auth.ts";
+import {
+  validateActivityDetection,
+  validateSessionConfig,
+  type ProxyConfig,
+} from "./config.ts";
+import {
+  checkProtocolVersion,
+  CLOSE_PROTOCOL_MISMATCH,
+  CLOSE_RATE_LIMITED,
+  encodeAudioFrame,
+  parseAudioFrame,
+  parseClientMessage,
+  parseDurationMs,
+  PROTOCOL_VERSION,
+  toFunctionResponse,
+  type ActivityDetectionConfig,
+  type ClientMessage,
+  type ContentMessage,
+  type ContentPart,
+  type ProxyMessage,
+  type SessionConfigRequest,
+  type SetupMessage,
+  type ToolDeclaration,
+} from "./protocol.ts";
+import type { ProxySocket, UpstreamConnector, UpstreamTarget } from "./socket.ts";
+import { buildGeminiSetup } from "./setup.ts";
+import { BROWSER_CONTROL_TOOLS, type ServerTool } from "./tools.ts";
+
+// How long to wait for the client's setup message before giving up on it
+// (clients from before the protocol was versioned may never send one)
+const CLIENT_SETUP_TIMEOUT_MS = 5000;
+
+// Gemini's output rate, when its mimeType doesn't say
+const DEFAULT_OUTPUT_SAMPLE_RATE = 24000;
+
+/** Decoded size of a base64 payload */
+function base64Size(base64: string): number {
+  return Math.floor(((base64?.length ?? 0) * 3) / 4);
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = "";
+  // Chunked to stay under the engine's argument count limit
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+// type/subtype, e.g. "application/pdf" or "image/svg+xml"
+const MIME_TYPE_PATTERN = /^[\w.+-]+\/[\w.+-]+$/;
+
+/**
+ * Check a content message's parts and copy them without any extra fields;
+ * bytes is the decoded inline data size
+ */
+function validateContentParts(
+  parts: unknown[]
+): { parts: ContentPart[]; bytes: number } | { error: string } {
+  if (parts.length === 0) return { error: "content message has no parts" };
+  const valid: ContentPart[] = [];
+  let bytes = 0;
+  for (const [index, part] of parts.entries()) {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { text, inlineData } = (part ?? {}) as any;
+    if (typeof text === "string" && inlineData === undefined) {
+      valid.push({ text });
+      continue;
+    }
+    if (
+      text !== undefined ||
+      typeof inlineData?.data !== "string" ||
+      typeof inlineData.mimeType !== "string" ||
+      !MIME_TYPE_PATTERN.test(inlineData.mimeType)
+    ) {
+      return { error: `content part ${index} needs text or inlineData with a mimeType and data` };
+    }
+    valid.push({ inlineData: { mimeType: inlineData.mimeType, data: inlineData.data } });
+    bytes += base64Size(inlineData.data);
+  }
+  return { parts: valid, bytes };
+}
+
+/** Sample rate from a mimeType such as "audio/pcm;rate=24000" */
+function parseSampleRate(mimeType: string): number {
+  const match = mimeType.match(/rate=(\d+)/);
+  return match ? parseInt(match[1], 10) : DEFAULT_OUTPUT_SAMPLE_RATE;
+}
+
+export interface ProxySessionOptions {
+  config: ProxyConfig;
+  serverTools: Map<string, ServerTool>;
+  client: ProxySocket;
+  connectUpstream: UpstreamConnector;
+  /** Resolved per session - Vertex needs a fresh access token */
+  resolveUpstream: () => Promise<UpstreamTarget>;
+  /** The authenticated user, or null when auth is disabled */
+  user: AuthUser | null;
+  /** The client's connection URL (voice, session_id, session_handle params) */
+  url: URL;
+  /** Called once when the session ends */
+  onEnd: () => void;
+}
+
+export class ProxySession {
+  private config: ProxyConfig;
+  private serverTools: Map<string, ServerTool>;
+  private client: ProxySocket;
+  private connectUpstream: UpstreamConnector;
+  private resolveUpstream: () => Promise<UpstreamTarget>;
+  private user: AuthUser | null;
+  private onEnd: () => void;
+
+  private queryVoice: string | null;
+  private sessionId: string | null;
+  private sessionHandle: string | null;
+
+  private gemini: ProxySocket | null = null;
+  private isSetupComplete = false;
+  private ended = false;
+  // Audio goes both ways as binary frames (the client asked in its setup)
+  private binaryAudio = false;
+  // The client sends activity_start / activity_end instead of Gemini's VAD
+  private pushToTalk = false;
+
+  private pendingTools: ToolDeclaration[] | null = null;
+  private pendingSessionConfig: SessionConfigRequest | null = null;
+  private pendingActivityDetection: ActivityDetectionConfig | null = null;
+  // Gemini setup is sent once both Gemini is connected and the client's
+  // setup message arrived
+  private geminiOpen = false;
+  private clientSetupReceived = false;
+  private geminiSetupSent = false;
+  private clientSetupTimer: ReturnType<typeof setTimeout> | undefined;
+  private sessionTimer: ReturnType<typeof setTimeout> | undefined;
+
+  // Tools the client declared - only these are forwarded to the browser
+  private clientToolNames = new Set<string>();
+  // Browser control actions the client opted into
+  private browserActions = new Set<string>();
+  // Pending browser_control calls: toolCallId -> function name
+  private browserCalls = new Map<string, string>();
+  // Pending client tool_calls: toolCallId -> function name
+  private clientCalls = new Map<string, string>();
+
+  // Per-minute byte budgets for realtime input and content uploads
+  private usageWindowStart = Date.now();
+  private audioBytes = 0;
+  private frameBytes = 0;
+  private contentBytes = 0;
+
+  constructor(options: ProxySessionOptions) {
+    this.config = options.config;
+    this.serverTools = options.serverTools;
+    this.client = options.client;
+    this.connectUpstream = options.connectUpstream;
+    this.resolveUpstream = options.resolveUpstream;
+    this.user = options.user;
+    this.onEnd = options.onEnd;
+
+    this.queryVoice = options.url.searchParams.get("voice");
+    this.sessionId = options.url.searchParams.get("session_id");
+    this.sessionHandle = options.url.searchParams.get("session_handle");
+  }
+
+  // =============================================================================
+  // Client Events
+  // =============================================================================
+
+  /** The client socket is open - connect to Gemini */
+  async handleClientOpen(): Promise<void> {
+    console.log("Client connected, establishing Gemini connection...");
+    const { maxSessionSeconds } = this.config;
+
+    if (maxSessionSeconds > 0) {
+      this.sessionTimer = setTimeout(() => {
+        this.closeRateLimited(
+          "session_time_limit",
+          `Session time limit reached (${maxSessionSeconds}s)`
+        );
+      }, maxSessionSeconds * 1000);
+    }
+
+    // Don't wait forever for clients that never send a setup message
+    this.clientSetupTimer = setTimeout(() => {
+      this.rejectProtocol("No setup message received from the client");
+    }, CLIENT_SETUP_TIMEOUT_MS);
+
+    let target: UpstreamTarget;
+    try {
+      target = await this.resolveUpstream();
+    } catch (error) {
+      console.error("Could not authenticate with the AI backend:", error);
+      this.sendToClient({ type: "error", message: "Connection to AI failed" });
+      this.client.close(1011, "Connection to AI failed");
+      return;
+    }
+    // The client may have left while we were getting a token
+    if (this.ended) return;
+
+    this.gemini = this.connectUpstream(target, {
+      onOpen: () => {
+        console.log("Connected to Gemini Live API");
+        this.geminiOpen = true;
+        this.sendGeminiSetup();
+      },
+      onMessage: (data) => {
+        try {
+          this.handleGeminiMessage(JSON.parse(data));
+        } catch (error) {
+          console.error("Error parsing Gemini response:", error);
+        }
+      },
+      onError: (error) => {
+        console.error("Gemini WebSocket error:", error);
+        this.sendToClient({ type: "error", message: "Connection to AI failed" });
+      },
+      onClose: (code, reason) => {
+        console.log("Gemini connection closed:", code, reason);
+        this.sendToClient({ type: "disconnected", reason: reason || "Connection closed" });
+      },
+    });
+  }
+
+  handleClientMessage(raw: string): void {
+    const parsed = parseClientMessage(raw);
+
+    // The first message must be a setup for our protocol version - anything
+    // else comes from a client built against another one
+    if (!this.clientSetupReceived) {
+      const mismatch = checkProtocolVersion(
+        parsed.ok && parsed.message.type === "setup" ? parsed.message.protocolVersion : undefined,
+        "client"
+      );
+      if (mismatch) {
+        this.rejectProtocol(mismatch);
+        return;
+      }
+    }
+
+    if (!parsed.ok) {
+      console.warn("Invalid client message:", parsed.error);
+      this.sendToClient({
+        type: "error",
+        code: "invalid_message",
+        message: `Invalid client message: ${parsed.error}`,
+      });
+      return;
+    }
+
+    try {
+      this.forwardClientMessage(parsed.message);
+    } catch (error) {
+      console.error("Error processing client message:", error);
+    }
+  }
+
+  /** A binary frame from the client - only audio, once negotiated */
+  handleClientFrame(data: Uint8Array): void {
+    const parsed = this.binaryAudio
+      ? parseAudioFrame(data)
+      : { ok: false as const, error: "Binary frames need binaryAudio in the setup message" };
+    if (!parsed.ok) {
+      console.warn("Invalid client frame:", parsed.error);
+      this.sendToClient({
+        type: "error",
+        code: "invalid_message",
+        message: `Invalid client message: ${parsed.error}`,
+      });
+      return;
+    }
+
+    if (!this.gemini?.isOpen() || !this.isSetupComplete) return;
+    const { pcm, sampleRate } = parsed.message;
+    if (!this.consumeBytes("audio", pcm.byteLength)) return;
+    // Gemini only takes base64
+    this.sendAudioToGemini(`audio/pcm;rate=${sampleRate}`, bytesToBase64(pcm));
+  }
+
+  handleClientError(error: unknown): void {
+    console.error("Client WebSocket error:", error);
+    this.gemini?.close();
+  }
+
+  handleClientClose(): void {
+    console.log("Client disconnected");
+    clearTimeout(this.clientSetupTimer);
+    clearTimeout(this.sessionTimer);
+    this.gemini?.close();
+    if (!this.ended) {
+      this.ended = true;
+      this.onEnd();
+    }
+  }
+
+  // =============================================================================
+  // Client -> Gemini
+  // =============================================================================
+
+  private forwardClientMessage(data: ClientMessage): void {
+    // Handle the client's setup before configuring Gemini
+    if (data.type === "setup") {
+      this.handleClientSetup(data);
+      return;
+    }
+
+    if (!this.gemini?.isOpen() || !this.isSetupComplete) {
+      return;
+    }
+
+    if (data.type === "frame") {
+      if (!this.consumeBytes("frame", base64Size(data.data))) return;
+      // Send image frame to Gemini (for screen sharing)
+      this.sendToGemini({
+        realtimeInput: {
+          mediaChunks: [{ mimeType: "image/jpeg", data: data.data }],
+        },
+      });
+    } else if (data.type === "audio") {
+      if (!this.consumeBytes("audio", base64Size(data.data))) return;
+      this.sendAudioToGemini(data.mimeType || "audio/pcm;rate=16000", data.data);
+    } else if (data.type === "text") {
+      // Send text message to Gemini
+      this.sendToGemini({
+        clientContent: {
+          turns: [{ role: "user", parts: [{ text: data.text }] }],
+          turnComplete: true,
+        },
+      });
+    } else if (data.type === "content") {
+      this.forwardContent(data);
+    } else if (data.type === "browser_control_result") {
+      // Map the browser's result back onto the original function call
+      const name = this.browserCalls.get(data.toolCallId);
+      if (!name) {
+        console.warn("Unknown browser control call:", data.toolCallId);
+        return;
+      }
+      this.browserCalls.delete(data.toolCallId);
+      this.debug("Sending browser control result for:", data.toolCallId);
+      this.sendToolResponse(data.toolCallId, name, toFunctionResponse(data.result));
+    } else if (data.type === "activity_start" || data.type === "activity_end") {
+      if (!this.pushToTalk) {
+        this.sendToClient({
+          type: "error",
+          code: "invalid_message",
+          message: `Invalid client message: ${data.type} needs pushToTalk in the setup message`,
+        });
+        return;
+      }
+      this.sendToGemini({
+        realtimeInput: data.type === "activity_start" ? { activityStart: {} } : { activityEnd: {} },
+      });
+    } else if (data.type === "tool_result") {
+      // Same shape as browser control and server tool results
+      const name = this.clientCalls.get(data.toolCallId);
+      if (!name) {
+        console.warn("Unknown tool call:", data.toolCallId);
+        return;
+      }
+      this.clientCalls.delete(data.toolCallId);
+      this.debug("Sending tool result for:", data.toolCallId);
+      this.sendToolResponse(data.toolCallId, name, toFunctionResponse(data.result));
+    }
+  }
+
+  /** Pass a multi-part user turn through, within the content size limits */
+  private forwardContent(data: ContentMessage): void {
+    const validation = validateContentParts(data.parts);
+    if ("error" in validation) {
+      console.warn("Invalid content:", validation.error);
+      this.sendToClient({
+        type: "error",
+        code: "invalid_message",
+        message: `Invalid client message: ${validation.error}`,
+      });
+      return;
+    }
+    const { maxContentBytes } = this.config;
+    if (maxContentBytes > 0 && validation.bytes > maxContentBytes) {
+      console.warn("Content too large:", validation.bytes);
+      this.sendToClient({
+        type: "error",
+        code: "content_too_large",
+        message: `Content is ${validation.bytes} bytes (max ${maxContentBytes})`,
+      });
+      return;
+    }
+
+    if (!this.consumeBytes("content", validation.bytes)) return;
+    this.sendToGemini({
+      clientContent: {
+        turns: [{ role: "user", parts: validation.parts }],
+        turnComplete: data.turnComplete ?? true,
+      },
+    });
+  }
+
+  private handleClientSetup(data: SetupMessage): void {
+    if (this.clientSetupReceived) {
+      console.warn("Ignoring late client setup");
+      return;
+    }
+    console.log("Received tool definitions:", data.tools?.length || 0);
+    this.pendingTools = data.tools || [];
+    this.browserActions = new Set(data.browserControl?.actions || []);
+    this.pendingSessionConfig = data.sessionConfig ?? null;
+    this.pendingActivityDetection = data.activityDetection ?? null;
+    this.binaryAudio = data.binaryAudio === true;
+    this.pushToTalk = data.pushToTalk === true;
+    this.clientSetupReceived = true;
+    this.sendGeminiSetup();
+  }
+
+  private sendGeminiSetup(): void {
+    if (this.geminiSetupSent || !this.geminiOpen || !this.clientSetupReceived) return;
+    if (!this.gemini?.isOpen()) return;
+    this.geminiSetupSent = true;
+    clearTimeout(this.clientSetupTimer);
+
+    // Validate the requested session config before it reaches Gemini
+    const validation = validateSessionConfig(
+      this.config,
+      this.pendingSessionConfig,
+      this.queryVoice
+    );
+    if ("error" in validation) {
+      console.warn("Rejected session config:", validation.error);
+      this.sendToClient({
+        type: "error",
+        message: `Invalid session config: ${validation.error}`,
+      });
+      this.client.close(1008, "Invalid session config");
+      return;
+    }
+    const config = validation.config;
+    console.log("Session config - model:", config.model, "voice:", config.voice);
+
+    const detection = validateActivityDetection(this.pendingActivityDetection);
+    if ("error" in detection) {
+      console.warn("Rejected activity detection:", detection.error);
+      this.sendToClient({
+        type: "error",
+        message: `Invalid activity detection: ${detection.error}`,
+      });
+      this.client.close(1008, "Invalid activity detection");
+      return;
+    }
+
+    const { setup, clientToolNames, browserToolNames } = buildGeminiSetup({
+      config: this.config,
+      session: config,
+      serverTools: this.serverTools,
+      browserActions: this.browserActions,
+      clientTools: this.pendingTools || [],
+      sessionHandle: this.sessionHandle,
+      pushToTalk: this.pushToTalk,
+      activityDetection: detection.config,
+    });
+    this.clientToolNames = clientToolNames;
+
+    if (setup.tools) {
+      console.log(
+        "Configuring tools - server:",
+        [...this.serverTools.keys()],
+        "browser:",
+        browserToolNames,
+        "client:",
+        [...clientToolNames]
+      );
+    }
+
+    this.sendToGemini({ setup });
+  }
+
+  // =============================================================================
+  // Gemini -> Client
+  // =============================================================================
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private handleGeminiMessage(data: any): void {
+    // Check for error response
+    if (data.error) {
+      console.error("Gemini error:", JSON.stringify(data.error));
+      this.sendToClient({
+        type: "error",
+        message: data.error.message || "Gemini API error",
+      });
+      return;
+    }
+
+    // Forward token usage (may arrive alongside other content)
+    if (data.usageMetadata) {
+      this.sendToClient({ type: "usage", usage: data.usageMetadata });
+    }
+
+    // Gemini is about to end the session - let the client migrate to a
+    // resumed session before it does
+    if (data.goAway) {
+      console.log("GoAway received, time left:", data.goAway.timeLeft);
+      this.sendToClient({
+        type: "go_away",
+        timeLeftMs: parseDurationMs(data.goAway.timeLeft),
+      });
+    }
+
+    // Check for setup complete
+    if (data.setupComplete !== undefined || data.setup_complete !== undefined) {
+      this.isSetupComplete = true;
+      this.sendSetupComplete();
+      console.log("Gemini setup complete");
+      return;
+    }
+
+    // Handle session resumption updates
+    if (data.sessionResumptionUpdate) {
+      const update = data.sessionResumptionUpdate;
+      if (update.newHandle || update.new_handle) {
+        this.sendToClient({
+          type: "session_handle",
+          handle: update.newHandle || update.new_handle,
+          resumable: update.resumable,
+        });
+      }
+      return;
+    }
+
+    if (data.serverContent) {
+      // Mark setup complete on first serverContent
+      if (!this.isSetupComplete) {
+        this.isSetupComplete = true;
+        this.sendSetupComplete();
+        console.log("Gemini setup complete (first serverContent)");
+      }
+      this.forwardServerContent(data.serverContent);
+    }
+
+    if (data.toolCall) {
+      for (const fc of data.toolCall.functionCalls || []) {
+        this.routeToolCall(fc);
+      }
+    }
+  }
+
+  /** Fan serverContent out into the client's message types */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private forwardServerContent(content: any): void {
+    for (const part of content.modelTurn?.parts || []) {
+      // Forward text responses
+      if (part.text) {
+        this.sendToClient({ type: "response", text: part.text });
+      }
+
+      // Forward audio data (base64 encoded, or raw PCM in a binary frame)
+      if (part.inlineData?.mimeType?.startsWith("audio/")) {
+        const { mimeType, data } = part.inlineData;
+        if (this.binaryAudio) {
+          this.sendFrameToClient(encodeAudioFrame(base64ToBytes(data), parseSampleRate(mimeType)));
+        } else {
+          this.sendToClient({ type: "audio", mimeType, data });
+        }
+      }
+    }
+
+    // Forward input transcription (user's speech as text)
+    if (content.inputTranscription?.text) {
+      this.sendToClient({ type: "input_transcription", text: content.inputTranscription.text });
+    }
+
+    // Forward output transcription (AI's speech as text)
+    if (content.outputTranscription?.text) {
+      this.sendToClient({
+        type: "output_transcription",
+        text: content.outputTranscription.text,
+      });
+    }
+
+    // User talked over the AI (barge-in) - client must flush playback
+    if (content.interrupted) {
+      this.sendToClient({ type: "interrupted" });
+    }
+
+    // Check if turn is complete
+    if (content.turnComplete) {
+      this.sendToClient({ type: "turn_complete" });
+    }
+  }
+
+  /** Run server tools here, relay browser tools and client tools to the browser */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private routeToolCall(fc: any): void {
+    const serverTool = this.serverTools.get(fc.name);
+    if (serverTool) {
+      this.runServerTool(serverTool, fc);
+      return;
+    }
+
+    // Built-in browser control tool - let the browser execute it
+    const browserTool = BROWSER_CONTROL_TOOLS[fc.name];
+    if (browserTool && this.browserActions.has(browserTool.action)) {
+      console.log("Browser control:", browserTool.action);
+      this.browserCalls.set(fc.id, fc.name);
+      this.sendToClient({
+        type: "browser_control",
+        toolCallId: fc.id,
+        action: browserTool.action,
+        args: fc.args || {},
+      });
+      return;
+    }
+
+    // Never expose tools the client didn't declare
+    if (!this.clientToolNames.has(fc.name)) {
+      console.warn("Tool call for undeclared tool:", fc.name);
+      this.sendToolResponse(fc.id, fc.name, { error: `Unknown tool: ${fc.name}` });
+      return;
+    }
+
+    console.log("Tool call:", fc.name);
+    this.clientCalls.set(fc.id, fc.name);
+    this.sendToClient({
+      type: "tool_call",
+      toolCallId: fc.id,
+      toolName: fc.name,
+      args: fc.args || {},
+    });
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private async runServerTool(tool: ServerTool, fc: any): Promise<void> {
+    console.log("Server tool call:", fc.name);
+    let success = true;
+    let response: Record<string, unknown>;
+    try {
+      response = toFunctionResponse(
+        await tool.handler(fc.args || {}, { sessionId: this.sessionId, user: this.user })
+      );
+    } catch (error) {
+      console.error("Server tool failed:", fc.name, error);
+      success = false;
+      response = { error: String(error) };
+    }
+
+    this.sendToolResponse(fc.id, fc.name, response);
+    this.sendToClient({
+      type: "server_tool_call",
+      toolCallId: fc.id,
+      toolName: fc.name,
+      success,
+    });
+  }
+
+  // =============================================================================
+  // Helpers
+  // =============================================================================
+
+  private sendSetupComplete(): void {
+    this.sendToClient({
+      type: "setup_complete",
+      protocolVersion: PROTOCOL_VERSION,
+      resumed: !!this.sessionHandle,
+      serverTools: [...this.serverTools.keys()],
+      binaryAudio: this.binaryAudio,
+      pushToTalk: this.pushToTalk,
+      maxContentBytes: this.config.maxContentBytes,
+    });
+  }
+
+  /** Per-message logging, only with PROXY_DEBUG=true */
+  private debug(...args: unknown[]): void {
+    if (this.config.debug) console.log(...args);
+  }
+
+  private sendToolResponse(id: string, name: string, response: unknown): void {
+    this.sendToGemini({
+      toolResponse: {
+        functionResponses: [{ id, name, response }],
+      },
+    });
+  }
+
+  private sendToClient(message: ProxyMessage): void {
+    if (this.client.isOpen()) {
+      this.client.send(JSON.stringify(message));
+    }
+  }
+
+  private sendFrameToClient(frame: Uint8Array): void {
+    if (this.client.isOpen()) {
+      this.client.send(frame);
+    }
+  }
+
+  private sendAudioToGemini(mimeType: string, base64: string): void {
+    this.sendToGemini({
+      realtimeInput: {
+        mediaChunks: [{ mimeType, data: base64 }],
+      },
+    });
+  }
+
+  private sendToGemini(message: Record<string, unknown>): void {
+    if (this.gemini?.isOpen()) {
+      this.gemini.send(JSON.stringify(message));
+    }
+  }
+
+  // The client speaks another protocol version - say so loudly and close
+  // instead of guessing at its messages
+  private rejectProtocol(message: string): void {
+    console.warn("Rejected client:", message);
+    clearTimeout(this.clientSetupTimer);
+    this.sendToClient({ type: "error", code: "protocol_mismatch", message });
+    this.client.close(CLOSE_PROTOCOL_MISMATCH, "Protocol mismatch");
+  }
+
+  // Tell the client why and close cleanly - the client should not reconnect
+  private closeRateLimited(code: string, message: string): void {
+    console.warn("Rate limited:", this.user?.id ?? "anonymous", code);
+    if (this.client.isOpen()) {
+      this.client.send(JSON.stringify({ type: "error", code, message }));
+      this.client.close(CLOSE_RATE_LIMITED, message);
+    }
+  }
+
+  // Returns false (and closes the session) when a chunk exceeds its budget
+  private consumeBytes(kind: "audio" | "frame" | "content", bytes: number): boolean {
+    const now = Date.now();
+    if (now - this.usageWindowStart >= 60_000) {
+      this.usageWindowStart = now;
+      this.audioBytes = 0;
+      this.frameBytes = 0;
+      this.contentBytes = 0;
+    }
+    const { maxAudioBytesPerMinute, maxFrameBytesPerMinute, maxContentBytesPerMinute } =
+      this.config;
+    if (kind === "audio") {
+      this.audioBytes += bytes;
+      if (maxAudioBytesPerMinute > 0 && this.audioBytes > maxAudioBytesPerMinute) {
+        this.closeRateLimited("audio_rate_limited", "Audio input limit exceeded");
+        return false;
+      }
+    } else if (kind === "frame") {
+      this.frameBytes += bytes;
+      if (maxFrameBytesPerMinute > 0 && this.frameBytes > maxFrameBytesPerMinute) {
+        this.closeRateLimited("frame_rate_limited", "Screen sharing limit exceeded");
+        return false;
+      }
+    } else {
+      this.contentBytes += bytes;
+      if (maxContentBytesPerMinute > 0 && this.contentBytes > maxContentBytesPerMinute) {
+        this.closeRateLimited("content_rate_limited", "Content upload limit exceeded");
+        return false;
+      }
+    }
+    return true;
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * Building Gemini's BidiGenerateContent setup message. Shared by relayed
+ * sessions and ephemeral tokens, which lock the same setup into the token.
+ */
+
+import type { ProxyConfig, SessionConfig } from "./config.ts";
+import type { ActivityDetectionConfig } from "./protocol.ts";
+import { BROWSER_CONTROL_TOOLS, type ServerTool } from "./tools.ts";
+import { vertexModelName } from "./vertex.ts";
+
+export interface GeminiSetupOptions {
+  config: ProxyConfig;
+  /** Validated per-session config */
+  session: SessionConfig;
+  serverTools: Map<string, ServerTool>;
+  /** Browser control actions the client opted into */
+  browserActions: Set<string>;
+  /** Tool declarations sent by the client */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  clientTools: any[];
+  /** Resume this session, if the client sent a handle */
+  sessionHandle?: string | null;
+  /** The client marks turns with activityStart / activityEnd itself */
+  pushToTalk?: boolean;
+  /** Validated server-side voice activity detection settings */
+  activityDetection?: ActivityDetectionConfig;
+}
+
+export interface GeminiSetup {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  setup: Record<string, any>;
+  /** Client tools that made it into the setup (not shadowed by built-ins) */
+  clientToolNames: Set<string>;
+  /** Built-in browser control tools that were declared */
+  browserToolNames: string[];
+}
+
+export function buildGeminiSetup(options: GeminiSetupOptions): GeminiSetup {
+  const { config, session, serverTools, browserActions, clientTools, sessionHandle } = options;
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const setup: Record<string, any> = {
+    // Vertex addresses models by resource name
+    model: config.backend === "vertex" ? vertexModelName(config, session.model) : session.model,
+    generationConfig: {
+      responseModalities: session.responseModalities,
+      mediaResolution: session.mediaResolution,
+      speechConfig: {
+        voiceConfig: {
+          prebuiltVoiceConfig: {
+            voiceName: session.voice,
+          },
+        },
+        ...(session.languageCode && { languageCode: session.languageCode }),
+      },
+      ...(session.temperature !== undefined && { temperature: session.temperature }),
+      ...(session.thinkingBudget !== undefined && {
+        thinkingConfig: { thinkingBudget: session.thinkingBudget },
+      }),
+    },
+    systemInstruction: {
+      parts: [{ text: session.systemInstruction }],
+    },
+    // Enable transcription for both input and output (text sessions have
+    // no output audio to transcribe)
+    inputAudioTranscription: {},
+    ...(session.responseModalities[0] === "AUDIO" && { outputAudioTranscription: {} }),
+    // Enable session resumption for reconnections, resuming the
+    // client's previous conversation when it sent a handle
+    sessionResumption: sessionHandle ? { handle: sessionHandle } : {},
+    // Enable context window compression for unlimited session time
+    contextWindowCompression: {
+      slidingWindow: {},
+    },
+  };
+
+  const realtimeInputConfig = buildRealtimeInputConfig(options);
+  if (realtimeInputConfig) {
+    setup.realtimeInputConfig = realtimeInputConfig;
+  }
+
+  // Add tools: server-side tools first, then built-in browser control
+  // tools, then client tools (earlier ones win on name clashes)
+  const browserTools = Object.entries(BROWSER_CONTROL_TOOLS)
+    .filter(([name, tool]) => browserActions.has(tool.action) && !serverTools.has(name))
+    .map(([name, tool]) => ({ name, ...tool }));
+  const declaredClientTools = clientTools.filter((tool) => {
+    if (serverTools.has(tool.name) || tool.name in BROWSER_CONTROL_TOOLS) {
+      console.warn("Client tool shadowed by built-in tool:", tool.name);
+      return false;
+    }
+    return true;
+  });
+  const declaredTools = [...serverTools.values(), ...browserTools, ...declaredClientTools];
+
+  if (declaredTools.length > 0) {
+    setup.tools = [
+      {
+        functionDeclarations: declaredTools.map((tool) => ({
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.parameters || { type: "object", properties: {} },
+        })),
+      },
+    ];
+  }
+
+  return {
+    setup,
+    clientToolNames: new Set(declaredClientTools.map((tool) => tool.name)),
+    browserToolNames: browserTools.map((tool) => tool.name),
+  };
+}
+
+/**
+ * Gemini's activity detection: off for push-to-talk, otherwise tuned by the
+ * client's activityDetection. Null leaves Gemini's defaults.
+ */
+function buildRealtimeInputConfig(options: GeminiSetupOptions): Record<string, unknown> | null {
+  const detection = options.activityDetection ?? {};
+  const realtimeInputConfig: Record<string, unknown> = {};
+
+  if (options.pushToTalk) {
+    realtimeInputConfig.automaticActivityDetection = { disabled: true };
+  } else {
+    const automatic: Record<string, unknown> = {};
+    if (detection.startSensitivity) {
+      automatic.startOfSpeechSensitivity = `START_SENSITIVITY_${detection.startSensitivity.toUpperCase()}`;
+    }
+    if (detection.endSensitivity) {
+      automatic.endOfSpeechSensitivity = `END_SENSITIVITY_${detection.endSensitivity.toUpperCase()}`;
+    }
+    if (detection.prefixPaddingMs !== undefined) {
+      automatic.prefixPaddingMs = detection.prefixPaddingMs;
+    }
+    if (detection.silenceDurationMs !== undefined) {
+      automatic.silenceDurationMs = detection.silenceDurationMs;
+    }
+    if (Object.keys(automatic).length > 0) {
+      realtimeInputConfig.automaticActivityDetection = automatic;
+    }
+  }
+
+  if (detection.activityHandling) {
+    realtimeInputConfig.activityHandling =
+      detection.activityHandling === "interrupt" ? "START_OF_ACTIVITY_INTERRUPTS" : "NO_INTERRUPTION";
+  }
+
+  return Object.keys(realtimeInputConfig).length > 0 ? realtimeInputConfig : null;
+}
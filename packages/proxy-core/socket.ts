@@ -0,0 +1,97 @@
+/**
+ * The minimal socket interfaces the core needs, so every runtime can plug in
+ * its own WebSocket implementation.
+ */
+
+/** One side of the proxy: the browser, or Gemini */
+export interface ProxySocket {
+  send(data: string | Uint8Array): void;
+  close(code?: number, reason?: string): void;
+  isOpen(): boolean;
+}
+
+export interface UpstreamHandlers {
+  onOpen(): void;
+  onMessage(data: string): void;
+  onError(error: unknown): void;
+  onClose(code: number, reason: string): void;
+}
+
+/** Where to connect to Gemini, with any headers the backend needs */
+export interface UpstreamTarget {
+  url: string;
+  headers?: Record<string, string>;
+}
+
+/** Open the connection to Gemini and report its events to the handlers */
+export type UpstreamConnector = (target: UpstreamTarget, handlers: UpstreamHandlers) => ProxySocket;
+
+/** Anything WebSocket-shaped: Deno, Bun, Workers and ws sockets all fit */
+export interface WebSocketLike {
+  readonly readyState: number;
+  send(data: string | Uint8Array): void;
+  close(code?: number, reason?: string): void;
+}
+
+const OPEN = 1;
+
+export function wrapSocket(socket: WebSocketLike): ProxySocket {
+  return {
+    send: (data) => socket.send(data),
+    close: (code, reason) => socket.close(code, reason),
+    isOpen: () => socket.readyState === OPEN,
+  };
+}
+
+const decoder = new TextDecoder();
+
+/** Text of a WebSocket message - Gemini sends JSON in binary frames */
+export function messageText(data: unknown): string {
+  if (typeof data === "string") return data;
+  if (data instanceof ArrayBuffer) return decoder.decode(data);
+  if (ArrayBuffer.isView(data)) return decoder.decode(data);
+  // Fragmented ws messages
+  if (Array.isArray(data)) return data.map(messageText).join("");
+  throw new Error("Unsupported WebSocket message data");
+}
+
+/**
+ * A client message: text, or the bytes of a binary frame. Adapters whose
+ * sockets deliver text as bytes (ws) must pass text frames through
+ * messageText() first.
+ */
+export function messageData(data: unknown): string | Uint8Array {
+  if (typeof data === "string") return data;
+  if (data instanceof ArrayBuffer) return new Uint8Array(data);
+  if (ArrayBuffer.isView(data)) return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+  // Fragmented ws messages
+  if (Array.isArray(data)) {
+    const parts = data.map((part) => messageData(part) as Uint8Array);
+    const bytes = new Uint8Array(parts.reduce((size, part) => size + part.byteLength, 0));
+    let offset = 0;
+    for (const part of parts) {
+      bytes.set(part, offset);
+      offset += part.byteLength;
+    }
+    return bytes;
+  }
+  throw new Error("Unsupported WebSocket message data");
+}
+
+/**
+ * Connect with the global WebSocket constructor (Deno, Bun, Node 22+). Headers
+ * use the non-standard options argument those runtimes accept.
+ */
+export const connectWebSocket: UpstreamConnector = ({ url, headers }, handlers) => {
+  const socket = headers
+    ? // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      new (WebSocket as any)(url, { headers }) as WebSocket
+    : new WebSocket(url);
+  // Decode synchronously so messages are handled in order
+  socket.binaryType = "arraybuffer";
+  socket.onopen = () => handlers.onOpen();
+  socket.onmessage = (event) => handlers.onMessage(messageText(event.data));
+  socket.onerror = (error) => handlers.onError(error);
+  socket.onclose = (event) => handlers.onClose(event.code, event.reason);
+  return wrapSocket(socket);
+};
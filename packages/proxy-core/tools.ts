@@ -0,0 +1,108 @@
+/**
+ * Server-side tools and the built-in browser control tools.
+ */
+
+import type { AuthUser } from "./auth.ts";
+import type { BrowserControlAction } from "./protocol.ts";
+
+// Tools executed in the proxy instead of the browser
+export interface ServerToolContext {
+  /** The session_id query parameter, if the client sent one */
+  sessionId: string | null;
+  /** The authenticated user, or null when auth is disabled */
+  user: AuthUser | null;
+}
+
+export interface ServerTool {
+  name: string;
+  description: string;
+  parameters?: Record<string, unknown>;
+  handler: (
+    args: Record<string, unknown>,
+    context: ServerToolContext
+  ) => unknown | Promise<unknown>;
+}
+
+export interface BrowserControlTool {
+  action: BrowserControlAction;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+// Built-in tools for browser control, keyed by function name. Declared only
+// when the client opts in; calls become browser_control messages.
+export const BROWSER_CONTROL_TOOLS: Record<string, BrowserControlTool> = {
+  browser_click: {
+    action: "click",
+    description: "Click an element on the user's page",
+    parameters: {
+      type: "object",
+      properties: {
+        selector: { type: "string", description: "CSS selector of the element" },
+      },
+      required: ["selector"],
+    },
+  },
+  browser_type: {
+    action: "type",
+    description: "Type text into an input or textarea on the user's page",
+    parameters: {
+      type: "object",
+      properties: {
+        selector: { type: "string", description: "CSS selector of the input" },
+        text: { type: "string", description: "Text to type" },
+        clear: {
+          type: "boolean",
+          description: "Clear the existing value first (default: true)",
+        },
+      },
+      required: ["selector", "text"],
+    },
+  },
+  browser_scroll: {
+    action: "scroll",
+    description: "Scroll the user's page to an element or in a direction",
+    parameters: {
+      type: "object",
+      properties: {
+        selector: { type: "string", description: "CSS selector to scroll into view" },
+        direction: { type: "string", enum: ["up", "down", "left", "right"] },
+        amount: { type: "number", description: "Pixels to scroll (default: 300)" },
+      },
+    },
+  },
+  browser_highlight: {
+    action: "highlight",
+    description: "Visually highlight an element to point the user at it",
+    parameters: {
+      type: "object",
+      properties: {
+        selector: { type: "string", description: "CSS selector of the element" },
+        message: { type: "string", description: "Optional label shown next to it" },
+        duration: { type: "number", description: "Milliseconds to show it (default: 3000)" },
+      },
+      required: ["selector"],
+    },
+  },
+  browser_get_dom: {
+    action: "get_dom",
+    description: "Read the structure of the user's page, including selectors for elements",
+    parameters: {
+      type: "object",
+      properties: {
+        selector: { type: "string", description: "Root element (default: body)" },
+        maxDepth: { type: "number", description: "Maximum depth (default: 5)" },
+      },
+    },
+  },
+  browser_get_errors: {
+    action: "get_errors",
+    description: "Read recent console errors from the user's page",
+    parameters: {
+      type: "object",
+      properties: {
+        limit: { type: "number", description: "Maximum number of errors (default: 20)" },
+      },
+    },
+  },
+};
@@ -0,0 +1,141 @@
+/**
+ * Vertex AI backend: regional BidiGenerateContent endpoint, model resource
+ * names, and OAuth access tokens minted from service-account credentials.
+ */
+
+import type { ProxyConfig } from "./config.ts";
+
+const TOKEN_SCOPE = "https://www.googleapis.com/auth/cloud-platform";
+const DEFAULT_TOKEN_URI = "https://oauth2.googleapis.com/token";
+// Used on Google Cloud (Cloud Run, GKE, ...) when no key is configured
+const METADATA_TOKEN_URL =
+  "http://metadata.google.internal/computeMetadata/v1/instance/service-accounts/default/token";
+// Refresh tokens this long before they expire
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+export function vertexLiveUrl(location: string): string {
+  return `wss://${location}-aiplatform.googleapis.com/ws/google.cloud.aiplatform.v1beta1.LlmBidiService/BidiGenerateContent`;
+}
+
+/** "models/gemini-x" -> "projects/p/locations/l/publishers/google/models/gemini-x" */
+export function vertexModelName(config: ProxyConfig, model: string): string {
+  const id = model.replace(/^models\//, "");
+  if (id.startsWith("projects/")) return id;
+  return `projects/${config.vertexProject}/locations/${config.vertexLocation}/publishers/google/models/${id}`;
+}
+
+interface ServiceAccountKey {
+  client_email: string;
+  private_key: string;
+  private_key_id?: string;
+  token_uri?: string;
+}
+
+interface CachedToken {
+  token: string;
+  expiresAt: number;
+}
+
+function base64UrlEncode(data: Uint8Array | string): string {
+  const bytes = typeof data === "string" ? new TextEncoder().encode(data) : data;
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function importPrivateKey(pem: string): Promise<CryptoKey> {
+  const base64 = pem
+    .replace(/-----(BEGIN|END) PRIVATE KEY-----/g, "")
+    .replace(/\s+/g, "");
+  const der = Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+  return crypto.subtle.importKey(
+    "pkcs8",
+    der,
+    { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+}
+
+/** Exchange a signed JWT assertion for an access token */
+async function fetchServiceAccountToken(key: ServiceAccountKey): Promise<CachedToken> {
+  const tokenUri = key.token_uri || DEFAULT_TOKEN_URI;
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64UrlEncode(
+    JSON.stringify({ alg: "RS256", typ: "JWT", ...(key.private_key_id && { kid: key.private_key_id }) })
+  );
+  const claims = base64UrlEncode(
+    JSON.stringify({
+      iss: key.client_email,
+      scope: TOKEN_SCOPE,
+      aud: tokenUri,
+      iat: now,
+      exp: now + 3600,
+    })
+  );
+
+  const signature = await crypto.subtle.sign(
+    "RSASSA-PKCS1-v1_5",
+    await importPrivateKey(key.private_key),
+    new TextEncoder().encode(`${header}.${claims}`)
+  );
+  const assertion = `${header}.${claims}.${base64UrlEncode(new Uint8Array(signature))}`;
+
+  const res = await fetch(tokenUri, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      grant_type: "urn:ietf:params:oauth:grant-type:jwt-bearer",
+      assertion,
+    }),
+  });
+  if (!res.ok) {
+    throw new Error(`Token request failed: ${res.status} ${await res.text()}`);
+  }
+  const data = await res.json();
+  return { token: data.access_token, expiresAt: Date.now() + data.expires_in * 1000 };
+}
+
+async function fetchMetadataToken(): Promise<CachedToken> {
+  const res = await fetch(METADATA_TOKEN_URL, { headers: { "Metadata-Flavor": "Google" } });
+  if (!res.ok) {
+    throw new Error(`Metadata server token request failed: ${res.status}`);
+  }
+  const data = await res.json();
+  return { token: data.access_token, expiresAt: Date.now() + data.expires_in * 1000 };
+}
+
+/**
+ * Access tokens for Vertex AI, cached and refreshed shortly before they
+ * expire. Uses GOOGLE_SERVICE_ACCOUNT_JSON, or the metadata server when
+ * running on Google Cloud without a key.
+ */
+export function createAccessTokenProvider(config: ProxyConfig): () => Promise<string> {
+  let key: ServiceAccountKey | null = null;
+  if (config.serviceAccountJson) {
+    try {
+      key = JSON.parse(config.serviceAccountJson);
+    } catch {
+      console.error("GOOGLE_SERVICE_ACCOUNT_JSON is not valid JSON");
+    }
+  }
+
+  let cached: CachedToken | null = null;
+  // Concurrent sessions share one refresh
+  let refreshing: Promise<CachedToken> | null = null;
+
+  return async () => {
+    if (cached && cached.expiresAt - TOKEN_REFRESH_MARGIN_MS > Date.now()) {
+      return cached.token;
+    }
+    if (!refreshing) {
+      refreshing = (key ? fetchServiceAccountToken(key) : fetchMetadataToken()).finally(() => {
+        refreshing = null;
+      });
+    }
+    cached = await refreshing;
+    return cached.token;
+  };
+}
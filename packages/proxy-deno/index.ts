@@ -2,403 +2,148 @@
  * Gemini Live Proxy for Supabase Edge Functions (Deno)
  *
  * This proxy sits between your frontend and Google's Gemini Live API,
- * keeping your API key secure on the server side.
+ * keeping your API key secure on the server side. The protocol translation
+ * lives in ../proxy-core; this file only adapts it to Deno.
  *
  * Environment variables:
- * - GOOGLE_AI_API_KEY (required): Your Google AI API key
+ * - GOOGLE_AI_API_KEY (required for the Gemini API): Your Google AI API key
  * - GEMINI_VOICE (optional): Voice name (default: "Zephyr")
  * - GEMINI_SYSTEM_INSTRUCTION (optional): Custom system instruction
+ * - GEMINI_MODEL (optional): Default model
+ * - GEMINI_LIVE_URL (optional): Gemini Live WebSocket URL (e.g. packages/mock-gemini)
+ *
+ * Vertex AI (instead of an API key):
+ * - GEMINI_BACKEND (optional): "vertex" to use Vertex AI (default: "gemini")
+ * - VERTEX_PROJECT (required for Vertex): Google Cloud project ID
+ * - VERTEX_LOCATION (optional): Region (default: "us-central1")
+ * - GOOGLE_SERVICE_ACCOUNT_JSON (optional): Service account key JSON; without
+ *   it the proxy asks the Google Cloud metadata server for tokens
+ *
+ * Per-session config allowlist (what clients may pick via sessionConfig):
+ * - GEMINI_ALLOWED_MODELS (optional): Comma-separated models (default: GEMINI_MODEL only)
+ * - GEMINI_ALLOWED_VOICES (optional): Comma-separated voices (default: all prebuilt voices)
+ * - GEMINI_ALLOWED_LANGUAGES (optional): Comma-separated language codes (default: any)
+ * - GEMINI_ALLOW_CLIENT_SYSTEM_INSTRUCTION (optional): "true" to let clients
+ *   replace the system instruction (default: false)
+ * - GEMINI_MAX_THINKING_BUDGET (optional): Highest thinking budget (default: 8192)
+ *
+ * Authentication:
+ * - PROXY_AUTH_MODE (optional): "supabase" (default) verifies Supabase user
+ *   JWTs, "jwt" verifies HS256 JWTs signed with PROXY_JWT_SECRET, "bearer"
+ *   accepts the static tokens in PROXY_BEARER_TOKENS, "none" disables auth.
+ *   Replace the verifier entirely with proxy.setAuthVerifier() below.
+ * - PROXY_JWT_SECRET / PROXY_JWT_AUDIENCE (optional): For "jwt" mode
+ * - PROXY_BEARER_TOKENS (optional): Comma-separated tokens for "bearer" mode
+ * - PROXY_ALLOWED_ORIGINS (optional): Comma-separated origins allowed to connect
+ * - PROXY_EPHEMERAL_TOKENS (optional): "true" to issue ephemeral tokens (POST)
+ *   for clients that connect to Gemini directly
+ * - Clients send the token as a "bearer.<token>" WebSocket subprotocol (next
+ *   to "gemini-live") or as the access_token query parameter. Rejected
+ *   connections get an error message and close code 4001 (unauthorized) or
+ *   4003 (origin not allowed).
+ *
+ * Rate limits and quotas (0 disables a limit; counted per proxy instance):
+ * - PROXY_MAX_SESSIONS_PER_USER (optional): Concurrent sessions per user, or
+ *   per IP when auth is disabled (default: 3)
+ * - PROXY_MAX_SESSION_SECONDS (optional): Maximum session duration (default: 1800)
+ * - PROXY_MAX_AUDIO_BYTES_PER_MINUTE (optional): Mic audio per session (default: 4000000)
+ * - PROXY_MAX_FRAME_BYTES_PER_MINUTE (optional): Screen frames per session (default: 20000000)
+ * - PROXY_MAX_CONTENT_BYTES (optional): Inline data in one content message (default: 5000000)
+ * - PROXY_MAX_CONTENT_BYTES_PER_MINUTE (optional): Images and files per session
+ *   (default: 20000000)
+ * - Breaches send an error message with a machine-readable code and close
+ *   with code 4029.
+ *
+ * Server-side tools:
+ * - Register handlers with proxy.registerServerTool() below. They run here in the
+ *   proxy (with access to your secrets) and answer Gemini directly; the
+ *   browser only learns that they ran.
+ *
+ * Browser control:
+ * - When the client opts in (setup with browserControl.actions), the
+ *   proxy declares built-in browser_* tools and relays their calls to the
+ *   browser as browser_control messages.
  *
  * Query parameters:
- * - voice: Override the voice (e.g., ?voice=Kore)
+ * - voice: Override the voice (e.g., ?voice=Kore) - must be allowed
  * - session_id: Optional session identifier for your app
+ * - session_handle: Gemini session handle to resume a previous conversation
+ * - access_token: Auth token (when not sent as a subprotocol)
  *
  * Deploy to Supabase:
- * 1. Copy this file to supabase/functions/gemini-live-proxy/index.ts
+ * 1. Copy this file to supabase/functions/gemini-live-proxy/index.ts and
+ *    packages/proxy-core to supabase/functions/proxy-core
  * 2. Set secrets: supabase secrets set GOOGLE_AI_API_KEY=your-key
- * 3. Deploy: supabase functions deploy gemini-live-proxy
+ * 3. Deploy: supabase functions deploy gemini-live-proxy --no-verify-jwt
  */
 
-import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-
-const GOOGLE_AI_API_KEY = Deno.env.get("GOOGLE_AI_API_KEY");
-const DEFAULT_VOICE = Deno.env.get("GEMINI_VOICE") || "Zephyr";
-const DEFAULT_SYSTEM_INSTRUCTION =
-  Deno.env.get("GEMINI_SYSTEM_INSTRUCTION") ||
-  `You are a helpful AI assistant having a real-time voice conversation.
-
-Guidelines:
-- Speak naturally and conversationally
-- Be concise - give direct answers
-- Ask clarifying questions if needed
-
-You're having a real-time voice conversation. Respond as if speaking, not writing.`;
-
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers":
-    "authorization, x-client-info, apikey, content-type, upgrade, connection, sec-websocket-key, sec-websocket-version, sec-websocket-protocol",
-};
-
-serve(async (req) => {
-  // Handle CORS preflight
-  if (req.method === "OPTIONS") {
-    return new Response(null, { headers: corsHeaders });
-  }
-
-  // Check for WebSocket upgrade
-  const upgradeHeader = req.headers.get("upgrade") || "";
-  if (upgradeHeader.toLowerCase() !== "websocket") {
-    return new Response("Expected WebSocket upgrade", {
-      status: 426,
-      headers: corsHeaders,
-    });
-  }
+import { serve, type ConnInfo } from "https://deno.land/std@0.168.0/http/server.ts";
+import { GeminiLiveProxy, wrapSocket } from "../proxy-core/mod.ts";
+
+const proxy = new GeminiLiveProxy({ env: (name) => Deno.env.get(name) });
+
+// Example - a server-side tool that needs a secret the browser must never see:
+//
+// proxy.registerServerTool({
+//   name: "lookup_order",
+//   description: "Look up the status of an order by its ID",
+//   parameters: {
+//     type: "object",
+//     properties: { orderId: { type: "string" } },
+//     required: ["orderId"],
+//   },
+//   handler: async ({ orderId }) => {
+//     const res = await fetch(`https://api.example.com/orders/${orderId}`, {
+//       headers: { Authorization: `Bearer ${Deno.env.get("ORDERS_API_KEY")}` },
+//     });
+//     return await res.json();
+//   },
+// });
+
+// Example - look tokens up in your own session store:
+//
+// proxy.setAuthVerifier(async (token) => {
+//   const session = await mySessionStore.get(token);
+//   return session ? { id: session.userId } : null;
+// });
+
+/** Client IP, from X-Forwarded-For only behind PROXY_TRUSTED_PROXIES */
+function getClientIp(req: Request, connInfo: ConnInfo): string {
+  const addr = connInfo.remoteAddr;
+  return proxy.clientIp(
+    req,
+    addr.transport === "tcp" || addr.transport === "udp" ? addr.hostname : undefined
+  );
+}
 
-  if (!GOOGLE_AI_API_KEY) {
-    console.error("GOOGLE_AI_API_KEY not configured");
-    return new Response("API key not configured", {
-      status: 500,
-      headers: corsHeaders,
-    });
-  }
+serve(async (req, connInfo) => {
+  const early = await proxy.handleHttp(req);
+  if (early) return early;
 
-  // Parse query parameters
-  const url = new URL(req.url);
-  const voiceName = url.searchParams.get("voice") || DEFAULT_VOICE;
-  const sessionId = url.searchParams.get("session_id");
-  const systemInstruction = DEFAULT_SYSTEM_INSTRUCTION;
-
-  console.log(
-    "New connection - voice:",
-    voiceName,
-    "session:",
-    sessionId || "none"
-  );
+  const connection = await proxy.accept(req, getClientIp(req, connInfo));
 
   try {
     // Upgrade to WebSocket
-    const { socket: clientSocket, response } = Deno.upgradeWebSocket(req);
-
-    let geminiSocket: WebSocket | null = null;
-    let isSetupComplete = false;
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    let pendingTools: any[] | null = null;
-
-    clientSocket.onopen = () => {
-      console.log("Client connected, establishing Gemini connection...");
-
-      // Connect to Gemini Live API
-      const geminiUrl = `wss://generativelanguage.googleapis.com/ws/google.ai.generativelanguage.v1beta.GenerativeService.BidiGenerateContent?key=${GOOGLE_AI_API_KEY}`;
-
-      geminiSocket = new WebSocket(geminiUrl);
-
-      geminiSocket.onopen = () => {
-        console.log("Connected to Gemini Live API");
-
-        // Build setup message with native audio model
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const setupConfig: any = {
-          model: "models/gemini-2.5-flash-native-audio-preview-12-2025",
-          generationConfig: {
-            responseModalities: ["AUDIO"],
-            mediaResolution: "MEDIA_RESOLUTION_MEDIUM",
-            speechConfig: {
-              voiceConfig: {
-                prebuiltVoiceConfig: {
-                  voiceName: voiceName,
-                },
-              },
-            },
-          },
-          systemInstruction: {
-            parts: [{ text: systemInstruction }],
-          },
-          // Enable transcription for both input and output
-          inputAudioTranscription: {},
-          outputAudioTranscription: {},
-          // Enable session resumption for reconnections
-          sessionResumption: {},
-          // Enable context window compression for unlimited session time
-          contextWindowCompression: {
-            slidingWindow: {},
-          },
-        };
-
-        // Add tools if provided
-        if (pendingTools && pendingTools.length > 0) {
-          console.log("Configuring tools:", pendingTools.map((t) => t.name));
-          setupConfig.tools = [
-            {
-              functionDeclarations: pendingTools.map((tool) => ({
-                name: tool.name,
-                description: tool.description,
-                parameters: tool.parameters || { type: "object", properties: {} },
-              })),
-            },
-          ];
-        }
-
-        const setupMessage = { setup: setupConfig };
-        geminiSocket!.send(JSON.stringify(setupMessage));
-      };
-
-      geminiSocket.onmessage = async (event) => {
-        try {
-          // Get the message data as string
-          let messageText: string;
-          if (event.data instanceof Blob) {
-            messageText = await event.data.text();
-          } else {
-            messageText = event.data;
-          }
-
-          const data = JSON.parse(messageText);
-
-          // Check for error response
-          if (data.error) {
-            console.error("Gemini error:", JSON.stringify(data.error));
-            clientSocket.send(
-              JSON.stringify({
-                type: "error",
-                message: data.error.message || "Gemini API error",
-              })
-            );
-            return;
-          }
-
-          // Check for setup complete
-          if (
-            data.setupComplete !== undefined ||
-            data.setup_complete !== undefined
-          ) {
-            isSetupComplete = true;
-            clientSocket.send(JSON.stringify({ type: "setup_complete" }));
-            console.log("Gemini setup complete");
-            return;
-          }
-
-          // Handle session resumption updates
-          if (data.sessionResumptionUpdate) {
-            const update = data.sessionResumptionUpdate;
-            if (update.newHandle || update.new_handle) {
-              clientSocket.send(
-                JSON.stringify({
-                  type: "session_handle",
-                  handle: update.newHandle || update.new_handle,
-                  resumable: update.resumable,
-                })
-              );
-            }
-            return;
-          }
-
-          // Forward server content to client
-          if (data.serverContent) {
-            // Mark setup complete on first serverContent
-            if (!isSetupComplete) {
-              isSetupComplete = true;
-              clientSocket.send(JSON.stringify({ type: "setup_complete" }));
-              console.log("Gemini setup complete (first serverContent)");
-            }
-
-            const parts = data.serverContent.modelTurn?.parts || [];
-
-            for (const part of parts) {
-              // Forward text responses
-              if (part.text) {
-                clientSocket.send(
-                  JSON.stringify({
-                    type: "response",
-                    text: part.text,
-                  })
-                );
-              }
-
-              // Forward audio data (base64 encoded)
-              if (part.inlineData?.mimeType?.startsWith("audio/")) {
-                clientSocket.send(
-                  JSON.stringify({
-                    type: "audio",
-                    mimeType: part.inlineData.mimeType,
-                    data: part.inlineData.data,
-                  })
-                );
-              }
-            }
-
-            // Forward input transcription (user's speech as text)
-            if (data.serverContent.inputTranscription?.text) {
-              clientSocket.send(
-                JSON.stringify({
-                  type: "input_transcription",
-                  text: data.serverContent.inputTranscription.text,
-                })
-              );
-            }
-
-            // Forward output transcription (AI's speech as text)
-            if (data.serverContent.outputTranscription?.text) {
-              clientSocket.send(
-                JSON.stringify({
-                  type: "output_transcription",
-                  text: data.serverContent.outputTranscription.text,
-                })
-              );
-            }
-
-            // Check if turn is complete
-            if (data.serverContent.turnComplete) {
-              clientSocket.send(JSON.stringify({ type: "turn_complete" }));
-            }
-          }
-
-          // Handle tool/function calls
-          if (data.toolCall) {
-            const functionCalls = data.toolCall.functionCalls || [];
-            for (const fc of functionCalls) {
-              console.log("Tool call:", fc.name);
-              clientSocket.send(
-                JSON.stringify({
-                  type: "tool_call",
-                  toolCallId: fc.id,
-                  toolName: fc.name,
-                  args: fc.args || {},
-                })
-              );
-            }
-          }
-        } catch (error) {
-          console.error("Error parsing Gemini response:", error);
-        }
-      };
-
-      geminiSocket.onerror = (error) => {
-        console.error("Gemini WebSocket error:", error);
-        clientSocket.send(
-          JSON.stringify({
-            type: "error",
-            message: "Connection to AI failed",
-          })
-        );
-      };
-
-      geminiSocket.onclose = (event) => {
-        console.log("Gemini connection closed:", event.code, event.reason);
-        if (clientSocket.readyState === WebSocket.OPEN) {
-          clientSocket.send(
-            JSON.stringify({
-              type: "disconnected",
-              reason: event.reason || "Connection closed",
-            })
-          );
-        }
-      };
-    };
-
-    clientSocket.onmessage = (event) => {
-      try {
-        const data = JSON.parse(event.data);
-
-        // Handle setup_tools before Gemini connection is established
-        if (data.type === "setup_tools") {
-          console.log("Received tool definitions:", data.tools?.length || 0);
-          pendingTools = data.tools || [];
-          return;
-        }
-
-        if (!geminiSocket || geminiSocket.readyState !== WebSocket.OPEN) {
-          return;
-        }
-
-        if (!isSetupComplete) {
-          return;
-        }
-
-        if (data.type === "frame") {
-          // Send image frame to Gemini (for screen sharing)
-          geminiSocket.send(
-            JSON.stringify({
-              realtimeInput: {
-                mediaChunks: [
-                  {
-                    mimeType: "image/jpeg",
-                    data: data.data,
-                  },
-                ],
-              },
-            })
-          );
-        } else if (data.type === "audio") {
-          // Send audio chunk to Gemini
-          geminiSocket.send(
-            JSON.stringify({
-              realtimeInput: {
-                mediaChunks: [
-                  {
-                    mimeType: data.mimeType || "audio/pcm;rate=16000",
-                    data: data.data,
-                  },
-                ],
-              },
-            })
-          );
-        } else if (data.type === "text") {
-          // Send text message to Gemini
-          geminiSocket.send(
-            JSON.stringify({
-              clientContent: {
-                turns: [
-                  {
-                    role: "user",
-                    parts: [{ text: data.text }],
-                  },
-                ],
-                turnComplete: true,
-              },
-            })
-          );
-        } else if (data.type === "tool_result") {
-          // Send tool result back to Gemini
-          console.log("Sending tool result for:", data.toolCallId);
-          geminiSocket.send(
-            JSON.stringify({
-              toolResponse: {
-                functionResponses: [
-                  {
-                    id: data.toolCallId,
-                    response: data.result,
-                  },
-                ],
-              },
-            })
-          );
-        }
-      } catch (error) {
-        console.error("Error processing client message:", error);
-      }
-    };
-
-    clientSocket.onerror = (error) => {
-      console.error("Client WebSocket error:", error);
-      if (geminiSocket) {
-        geminiSocket.close();
-      }
-    };
-
-    clientSocket.onclose = () => {
-      console.log("Client disconnected");
-      if (geminiSocket) {
-        geminiSocket.close();
-      }
-    };
+    const { socket, response } = Deno.upgradeWebSocket(
+      req,
+      connection.protocol ? { protocol: connection.protocol } : {}
+    );
+
+    const handlers = connection.attach(wrapSocket(socket));
+    // Binary audio frames are decoded synchronously, in order
+    socket.binaryType = "arraybuffer";
+    socket.onopen = () => handlers.onOpen();
+    socket.onmessage = (event) => handlers.onMessage(event.data);
+    socket.onerror = (error) => handlers.onError(error);
+    socket.onclose = () => handlers.onClose();
 
     return response;
   } catch (error) {
     console.error("WebSocket upgrade failed:", error);
+    connection.release();
     return new Response("WebSocket upgrade failed", {
       status: 500,
-      headers: corsHeaders,
+      headers: proxy.corsHeaders(req),
     });
   }
 });
@@ -0,0 +1,96 @@
+/**
+ * Gemini Live Proxy for Node.js
+ *
+ * Node adapter for ../proxy-core, using `ws` for WebSockets on both sides.
+ * Configuration is the same as the Deno proxy (see ../proxy-deno/README.md),
+ * read from process.env.
+ *
+ * Usage (Node 22.18+ runs TypeScript directly):
+ *   npm install ws
+ *   GOOGLE_AI_API_KEY=your-key PORT=8080 node index.ts
+ */
+
+import { createServer, type IncomingMessage } from "node:http";
+import { Readable } from "node:stream";
+import WebSocket, { WebSocketServer } from "ws";
+import {
+  GeminiLiveProxy,
+  WS_PROTOCOL,
+  messageText,
+  wrapSocket,
+  type UpstreamConnector,
+} from "../proxy-core/mod.ts";
+
+const PORT = Number(process.env.PORT || 8080);
+
+// Node before 22 has no global WebSocket - connect to Gemini with ws too
+const connectUpstream: UpstreamConnector = ({ url, headers }, handlers) => {
+  const socket = new WebSocket(url, { headers });
+  socket.on("open", () => handlers.onOpen());
+  socket.on("message", (data) => handlers.onMessage(messageText(data)));
+  socket.on("error", (error) => handlers.onError(error));
+  socket.on("close", (code, reason) => handlers.onClose(code, reason.toString()));
+  return wrapSocket(socket);
+};
+
+const proxy = new GeminiLiveProxy({ env: (name) => process.env[name], connectUpstream });
+
+// Register server-side tools and a custom auth verifier here, e.g.
+// proxy.registerServerTool({ name: "lookup_order", ... });
+
+/** The parts of the upgrade request the core reads, as a fetch Request */
+function toRequest(req: IncomingMessage): Request {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (value !== undefined) headers.set(name, Array.isArray(value) ? value.join(", ") : value);
+  }
+  const hasBody = req.method !== "GET" && req.method !== "HEAD";
+  return new Request(`http://${req.headers.host || "localhost"}${req.url}`, {
+    method: req.method,
+    headers,
+    // Ephemeral token requests carry a JSON body
+    ...(hasBody && { body: Readable.toWeb(req) as ReadableStream, duplex: "half" }),
+  });
+}
+
+const server = createServer(async (req, res) => {
+  const response =
+    (await proxy.handleHttp(toRequest(req))) ??
+    new Response("Expected WebSocket upgrade", { status: 426 });
+  res.writeHead(response.status, Object.fromEntries(response.headers));
+  res.end(await response.text());
+});
+
+const wss = new WebSocketServer({
+  noServer: true,
+  // Echo our subprotocol when offered (required when the token is sent as one)
+  handleProtocols: (protocols) => (protocols.has(WS_PROTOCOL) ? WS_PROTOCOL : false),
+});
+
+server.on("upgrade", async (req, stream, head) => {
+  const request = toRequest(req);
+  const early = await proxy.handleHttp(request);
+  if (early) {
+    stream.end(`HTTP/1.1 ${early.status} ${early.statusText}\r\n\r\n`);
+    return;
+  }
+
+  const connection = await proxy.accept(request, proxy.clientIp(request, req.socket.remoteAddress));
+  // ws drops failed handshakes without calling back
+  stream.once("close", () => connection.release());
+  wss.handleUpgrade(req, stream, head, (socket) => {
+    const handlers = connection.attach(wrapSocket(socket));
+    // ws delivers text frames as bytes too
+    socket.on("message", (data, isBinary) =>
+      handlers.onMessage(isBinary ? data : messageText(data))
+    );
+    socket.on("error", (error) => handlers.onError(error));
+    socket.on("close", () => handlers.onClose());
+    // ws hands over sockets that are already open
+    handlers.onOpen();
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Gemini Live proxy listening on ws://localhost:${PORT}`);
+});
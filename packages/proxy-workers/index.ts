@@ -0,0 +1,95 @@
+/**
+ * Gemini Live Proxy for Cloudflare Workers
+ *
+ * Workers adapter for ../proxy-core. Configuration is the same as the Deno
+ * proxy (see ../proxy-deno/README.md), set as Worker vars and secrets:
+ *   wrangler secret put GOOGLE_AI_API_KEY
+ *
+ * Rate limits are counted per isolate, and a Worker serves each WebSocket
+ * from a single isolate, so session counts are per isolate too.
+ */
+
+import {
+  GeminiLiveProxy,
+  messageText,
+  wrapSocket,
+  type ProxySocket,
+  type UpstreamConnector,
+} from "../proxy-core/mod.ts";
+
+// Workers open outbound WebSockets with a fetch upgrade (https:// URL)
+const connectUpstream: UpstreamConnector = ({ url, headers }, handlers) => {
+  let socket: WebSocket | null = null;
+  let closed = false;
+
+  fetch(url.replace(/^ws/, "http"), { headers: { ...headers, Upgrade: "websocket" } })
+    .then((response) => {
+      socket = response.webSocket;
+      if (!socket) throw new Error(`Gemini upgrade failed: ${response.status}`);
+      socket.accept();
+      socket.addEventListener("message", (event) => handlers.onMessage(messageText(event.data)));
+      socket.addEventListener("error", (error) => handlers.onError(error));
+      socket.addEventListener("close", (event) => handlers.onClose(event.code, event.reason));
+      if (closed) {
+        socket.close();
+        return;
+      }
+      handlers.onOpen();
+    })
+    .catch((error) => {
+      handlers.onError(error);
+      handlers.onClose(1006, "Connection to AI failed");
+    });
+
+  const upstream: ProxySocket = {
+    send: (data) => socket?.send(data),
+    close: (code, reason) => {
+      closed = true;
+      socket?.close(code, reason);
+    },
+    isOpen: () => socket?.readyState === WebSocket.OPEN,
+  };
+  return upstream;
+};
+
+// Env bindings arrive with the first request
+let instance: GeminiLiveProxy | null = null;
+
+function getProxy(env: Record<string, string | undefined>): GeminiLiveProxy {
+  if (!instance) {
+    instance = new GeminiLiveProxy({ env: (name) => env[name], connectUpstream });
+    // Register server-side tools and a custom auth verifier here, e.g.
+    // instance.registerServerTool({ name: "lookup_order", ... });
+  }
+  return instance;
+}
+
+export default {
+  async fetch(req: Request, env: Record<string, string | undefined>): Promise<Response> {
+    const proxy = getProxy(env);
+    const early = await proxy.handleHttp(req);
+    if (early) return early;
+
+    const connection = await proxy.accept(
+      req,
+      req.headers.get("cf-connecting-ip") || "unknown"
+    );
+
+    const [client, server] = Object.values(new WebSocketPair());
+    server.accept();
+
+    const handlers = connection.attach(wrapSocket(server));
+    server.addEventListener("message", (event) => handlers.onMessage(event.data));
+    server.addEventListener("error", (error) => handlers.onError(error));
+    server.addEventListener("close", () => handlers.onClose());
+    // Accepted sockets are open right away; messages queue until the
+    // response reaches the client
+    handlers.onOpen();
+
+    return new Response(null, {
+      status: 101,
+      webSocket: client,
+      headers: connection.protocol ? { "Sec-WebSocket-Protocol": connection.protocol } : {},
+    });
+  },
+};
@@ -0,0 +1,2578 @@
+import type {
+  Transcript,
+  GeminiLiveClientOptions,
+  GeminiLiveClientState,
+  GeminiLiveClientEvents,
+  ProxyMessage,
+  ClientMessage,
+  SetupMessage,
+  SetupCompleteMessage,
+  ConnectionMetrics,
+  DebugLevel,
+  DebugCallback,
+  BrowserControlAction,
+  BrowserControlCommand,
+  BrowserControlResult,
+  UICommand,
+  UICommandType,
+  SessionEvent,
+  SessionRecording,
+  Workflow,
+  WorkflowStep,
+  WorkflowExecution,
+  DetectionResult,
+  ToolCallContext,
+  ServerToolCall,
+  UsageMetadata,
+  AudioDevice,
+  AudioLevel,
+  AudioLevels,
+  AudioLevelsOptions,
+  ContentInput,
+  SendContentOptions,
+} from './types';
+import {
+  highlightElement,
+  clickElement,
+  typeIntoElement,
+  scrollTo,
+  serializeDOM,
+  executeBrowserControl,
+  findInteractiveElements,
+} from './browserControl';
+import {
+  CAPTURE_WORKLET_SOURCE,
+  PLAYBACK_WORKLET_SOURCE,
+  loadWorklet,
+  type CaptureChunk,
+  type LevelMessage,
+  type MeterConfig,
+  type PlaybackChunk,
+} from './audioWorklets';
+import { GeminiProtocolAdapter, type EphemeralToken } from './geminiProtocol';
+import { contentPartBytes, encodeContentParts } from './content';
+import {
+  PROTOCOL_VERSION,
+  WS_PROTOCOL,
+  CLOSE_UNAUTHORIZED,
+  CLOSE_ORIGIN_NOT_ALLOWED,
+  CLOSE_PROTOCOL_MISMATCH,
+  CLOSE_RATE_LIMITED,
+  checkProtocolVersion,
+  parseAudioFrame,
+  parseProxyMessage,
+} from '../../proxy-core/protocol';
+
+const BROWSER_CONTROL_ACTIONS: BrowserControlAction[] = [
+  'click',
+  'type',
+  'scroll',
+  'highlight',
+  'get_dom',
+  'get_errors',
+];
+
+/** Tool names that are handled as UI commands instead of regular tool calls */
+const UI_COMMANDS: UICommandType[] = [
+  'highlight_element',
+  'show_action_button',
+  'update_checklist',
+  'think_aloud',
+  'ask_user',
+  'run_diagnostic',
+  'escalate_to_human',
+];
+
+const INITIAL_STATE: GeminiLiveClientState = {
+  connectionState: 'idle',
+  resumed: false,
+  error: null,
+  errorCode: null,
+  transcripts: [],
+  isSpeaking: false,
+  isMuted: false,
+  isSpeakerMuted: false,
+  audioInputDeviceId: null,
+  audioOutputDeviceId: null,
+  streamingText: null,
+  streamingUserText: null,
+  isUserSpeaking: false,
+  isTalking: false,
+  isInterrupted: false,
+  serverTools: [],
+  isRecording: false,
+  workflowExecution: null,
+  detectedElements: [],
+  isDetecting: false,
+};
+
+const SILENT_LEVEL: AudioLevel = { rms: 0, peak: 0, frequencies: null };
+
+/** getUserMedia errors meaning the requested microphone isn't there */
+const MISSING_DEVICE_ERRORS = ['NotFoundError', 'OverconstrainedError'];
+
+/** AudioContext.setSinkId isn't in every TypeScript DOM lib yet */
+type SinkableAudioContext = AudioContext & { setSinkId?: (sinkId: string) => Promise<void> };
+
+type ListenerMap = {
+  [K in keyof GeminiLiveClientEvents]?: Set<GeminiLiveClientEvents[K]>;
+};
+
+/**
+ * Framework-agnostic client for real-time bidirectional voice communication
+ * with Google Gemini Live API. Powers the useGeminiLive hook, and can be used
+ * directly from vanilla JS or any other framework.
+ *
+ * Owns the proxy WebSocket, microphone capture, audio playback, transcript
+ * debouncing, tool calls, session recording and workflows. State changes are
+ * published through a small event emitter.
+ *
+ * @example
+ * ```ts
+ * const client = new GeminiLiveClient({
+ *   proxyUrl: 'wss://your-project.supabase.co/functions/v1/gemini-live-proxy',
+ * });
+ *
+ * client.on('transcript', (t) => console.log(`${t.role}: ${t.text}`));
+ * client.on('toolCall', async (call) => {
+ *   client.sendToolResult(call.id, await runTool(call.name, call.args));
+ * });
+ *
+ * await client.connect();
+ * client.sendText('Hello!');
+ * ```
+ */
+export class GeminiLiveClient {
+  private options: GeminiLiveClientOptions;
+  private state: GeminiLiveClientState = INITIAL_STATE;
+  private listeners: ListenerMap = {};
+
+  private socket: WebSocket | null = null;
+  // Replacement connection being set up after a GoAway
+  private migratingSocket: WebSocket | null = null;
+  private closedDuringMigration: CloseEvent | null = null;
+  private disconnectedDuringMigration: string | null = null;
+  private videoElement: HTMLVideoElement | null = null;
+  private canvas: HTMLCanvasElement | null = null;
+  private frameInterval: ReturnType<typeof setInterval> | null = null;
+  private reconnectAttempts = 0;
+  private reconnectDelay: number;
+  private sessionHandle: string | null = null;
+  private setupCompleted = false;
+  // Direct mode: sockets connected straight to Gemini speak its native protocol
+  private nativeProtocol = new GeminiProtocolAdapter();
+  private directSockets = new WeakSet<WebSocket>();
+  // Relay mode: audio goes as binary frames (the proxy confirmed binaryAudio)
+  private binaryAudio = false;
+  // Gemini's activity detection is off and turns are marked with activity_*
+  private pushToTalk = false;
+  // Inline data allowed per content message (0: no limit; null: the proxy
+  // can't relay content messages)
+  private maxContentBytes: number | null = null;
+
+  // VAD
+  private vad: unknown = null;
+  private userSpeaking = false;
+
+  // Transcript accumulation - buffer chunks before creating transcript entries
+  private inputTranscriptBuffer = '';
+  private outputTranscriptBuffer = '';
+  private inputTranscriptTimeout: ReturnType<typeof setTimeout> | null = null;
+  private outputTranscriptTimeout: ReturnType<typeof setTimeout> | null = null;
+
+  // Console errors buffer for browser control get_errors action
+  private consoleErrors: string[] = [];
+
+  // Audio - separate contexts for input (16kHz) and output (browser rate)
+  private playbackContext: AudioContext | null = null;
+  private inputContext: AudioContext | null = null;
+  private micStream: MediaStream | null = null;
+  // Mic starts never overlap: a (re)start requested while one is in flight
+  // runs again once it finishes, on the device selected by then
+  private micStarting: Promise<void> | null = null;
+  private micRestartPending = false;
+  // Bumped by every stop, so an in-flight start knows to give up
+  private micGeneration = 0;
+  private audioWorklet: AudioWorkletNode | null = null;
+  private playbackNode: AudioWorkletNode | null = null;
+  private playbackLoading: Promise<void> | null = null;
+  // Chunks and turn ends that arrived while the playback worklet loads
+  private pendingPlayback: Array<PlaybackChunk | { type: 'turn_complete' }> = [];
+  private watchingDevices = false;
+
+  // Level meters (run in the worklets while anyone subscribes)
+  private levelListeners = new Map<(levels: AudioLevels) => void, AudioLevelsOptions>();
+  private audioLevels: AudioLevels = { input: SILENT_LEVEL, output: SILENT_LEVEL };
+  // Samples received vs. played in the current AI turn (for interruption cut-off)
+  private turnReceivedSamples = 0;
+  private turnPlayedSamples = 0;
+
+  // Connection quality metrics
+  private metrics: ConnectionMetrics = {
+    audioChunksReceived: 0,
+    messagesReceived: 0,
+    reconnectCount: 0,
+    lastConnectedAt: null,
+    totalConnectedTime: 0,
+    playbackUnderruns: 0,
+    playbackBufferMs: 0,
+    playbackTargetLatencyMs: 0,
+    playbackJitterMs: 0,
+    inputTokens: {},
+    outputTokens: {},
+    totalInputTokens: 0,
+    totalOutputTokens: 0,
+  };
+
+  // Session recording
+  private recordingEvents: SessionEvent[] = [];
+  private recordingStart: number | null = null;
+  private recordingId: string | null = null;
+  private domSnapshotInterval: ReturnType<typeof setInterval> | null = null;
+
+  // Workflow builder
+  private workflowRegistry = new Map<string, Workflow>();
+  private workflowPaused = false;
+  private workflowCancelled = false;
+
+  constructor(options: GeminiLiveClientOptions) {
+    this.options = options;
+    this.reconnectDelay = options.reconnection?.initialDelay ?? 1000;
+    this.state = {
+      ...INITIAL_STATE,
+      audioInputDeviceId: options.audioInputDeviceId ?? null,
+      audioOutputDeviceId: options.audioOutputDeviceId ?? null,
+    };
+  }
+
+  // =============================================================================
+  // Options, State & Events
+  // =============================================================================
+
+  /**
+   * Replace the client options (takes effect on next use of each option;
+   * changed audio devices and microphone are applied right away)
+   */
+  setOptions(options: GeminiLiveClientOptions): void {
+    const previous = this.options;
+    this.options = options;
+    if (options.audioInputDeviceId !== previous.audioInputDeviceId) {
+      void this.setInputDevice(options.audioInputDeviceId ?? null);
+    }
+    if (options.audioOutputDeviceId !== previous.audioOutputDeviceId) {
+      void this.setOutputDevice(options.audioOutputDeviceId ?? null);
+    }
+    const microphone = options.microphone !== false;
+    const micChanged = microphone !== (previous.microphone !== false);
+    if (micChanged && this.setupCompleted && this.isSocketOpen()) {
+      if (microphone) {
+        void this.startMicCapture();
+      } else {
+        this.stopMicCapture();
+      }
+    }
+  }
+
+  /** Get the current state snapshot */
+  getState(): GeminiLiveClientState {
+    return this.state;
+  }
+
+  /**
+   * Subscribe to a client event
+   * @returns Function that removes the listener
+   */
+  on<K extends keyof GeminiLiveClientEvents>(
+    event: K,
+    listener: GeminiLiveClientEvents[K]
+  ): () => void {
+    let set = this.listeners[event] as Set<GeminiLiveClientEvents[K]> | undefined;
+    if (!set) {
+      set = new Set();
+      (this.listeners as Record<string, unknown>)[event] = set;
+    }
+    set.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  /** Remove a previously registered event listener */
+  off<K extends keyof GeminiLiveClientEvents>(
+    event: K,
+    listener: GeminiLiveClientEvents[K]
+  ): void {
+    (this.listeners[event] as Set<GeminiLiveClientEvents[K]> | undefined)?.delete(listener);
+  }
+
+  private emit<K extends keyof GeminiLiveClientEvents>(
+    event: K,
+    ...args: Parameters<GeminiLiveClientEvents[K]>
+  ): void {
+    const set = this.listeners[event];
+    if (!set) return;
+    for (const listener of Array.from(set)) {
+      (listener as (...a: unknown[]) => void)(...args);
+    }
+  }
+
+  private setState(partial: Partial<GeminiLiveClientState>): void {
+    this.state = { ...this.state, ...partial };
+    this.emit('stateChange', this.state);
+  }
+
+  /** Debug logging helper */
+  private log(level: DebugLevel, message: string, data?: unknown): void {
+    const { debug } = this.options;
+    if (!debug) return;
+    if (typeof debug === 'function') {
+      (debug as DebugCallback)(level, message, data);
+    } else {
+      const prefix = `[gemini-live] [${level}]`;
+      if (data !== undefined) {
+        console.log(prefix, message, data);
+      } else {
+        console.log(prefix, message);
+      }
+    }
+  }
+
+  private fail(errorMsg: string, errorCode: string | null = null): void {
+    this.setState({ error: errorMsg, errorCode, connectionState: 'error' });
+    this.emit('error', errorMsg);
+  }
+
+  /** Surface an error that doesn't end the session */
+  private reportError(errorMsg: string, errorCode: string): void {
+    this.setState({ error: errorMsg, errorCode });
+    this.emit('error', errorMsg);
+  }
+
+  private isSocketOpen(): boolean {
+    return this.socket?.readyState === WebSocket.OPEN;
+  }
+
+  private send(message: ClientMessage): void {
+    if (!this.isSocketOpen()) return;
+    const socket = this.socket!;
+    const payload = this.directSockets.has(socket) ? this.nativeProtocol.toGemini(message) : message;
+    if (payload) {
+      socket.send(JSON.stringify(payload));
+    }
+  }
+
+  /** Parse a socket message, translating Gemini's native messages on direct sockets */
+  private decodeMessages(socket: WebSocket, event: MessageEvent): ProxyMessage[] {
+    if (!this.directSockets.has(socket)) {
+      const parsed = parseProxyMessage(event.data);
+      if (!parsed.ok) {
+        this.reportInvalidMessage(parsed.error);
+        return [];
+      }
+      return [parsed.message];
+    }
+    // Gemini sends JSON in binary frames
+    const text =
+      typeof event.data === 'string' ? event.data : new TextDecoder().decode(event.data);
+    return this.nativeProtocol.fromGemini(JSON.parse(text), this.getBrowserActions());
+  }
+
+  /** Binary frames on relay sockets carry audio (direct sockets get JSON in them) */
+  private isAudioFrame(socket: WebSocket, event: MessageEvent): event is MessageEvent<ArrayBuffer> {
+    return !this.directSockets.has(socket) && event.data instanceof ArrayBuffer;
+  }
+
+  private reportInvalidMessage(error: string): void {
+    const errorMsg = `Invalid proxy message: ${error}`;
+    this.log('error', errorMsg);
+    this.reportError(errorMsg, 'invalid_message');
+  }
+
+  /** Send a chunk of 16kHz mic audio, already encoded by the capture worklet */
+  private sendAudio(chunk: CaptureChunk): void {
+    if ('frame' in chunk) {
+      // Posted before the worklet heard binary frames were turned off
+      if (!this.binaryAudio) return;
+      this.socket!.send(chunk.frame);
+      return;
+    }
+    this.send({
+      type: 'audio',
+      mimeType: 'audio/pcm;rate=16000',
+      data: chunk.base64,
+    });
+  }
+
+  /** Browser control actions declared to the AI */
+  private getBrowserActions(): BrowserControlAction[] {
+    const { browserControl } = this.options;
+    return browserControl ? (browserControl.actions ?? BROWSER_CONTROL_ACTIONS) : [];
+  }
+
+  // =============================================================================
+  // Audio Playback
+  // =============================================================================
+
+  /**
+   * Parse sample rate from mimeType (e.g., "audio/L16;rate=24000" or "audio/pcm;rate=24000")
+   */
+  private parseSampleRate(mimeType: string): number {
+    const match = mimeType.match(/rate=(\d+)/);
+    return match ? parseInt(match[1], 10) : 24000;
+  }
+
+  /**
+   * Get the playback worklet, creating the output AudioContext and loading the
+   * processor on first use. Chunks that arrive while it loads are queued.
+   */
+  private ensurePlaybackNode(): void {
+    if (this.playbackNode || this.playbackLoading) return;
+
+    // Create AudioContext with browser's default sample rate (don't force 24kHz)
+    if (!this.playbackContext) {
+      this.playbackContext = new AudioContext();
+      void this.applyOutputDevice(this.playbackContext);
+    }
+    const ctx = this.playbackContext;
+
+    this.playbackLoading = loadWorklet(ctx, PLAYBACK_WORKLET_SOURCE)
+      .then(() => {
+        // Disconnected while loading
+        if (this.playbackContext !== ctx) return;
+
+        const node = new AudioWorkletNode(ctx, 'playback-processor', {
+          numberOfInputs: 0,
+          outputChannelCount: [1],
+          processorOptions: {
+            minBufferMs: this.options.minBufferMs ?? 200,
+            maxBufferMs: this.options.maxBufferMs ?? 1000,
+            quality: this.options.resamplerQuality ?? 'high',
+            meter: this.getMeterConfig(),
+          },
+        });
+        node.port.onmessage = (event) => this.handlePlaybackMessage(event.data);
+        node.connect(ctx.destination);
+        this.playbackNode = node;
+
+        // Flush chunks and turn ends that arrived while loading, in order
+        for (const chunk of this.pendingPlayback) {
+          this.postPlayback(node, chunk);
+        }
+        this.pendingPlayback = [];
+      })
+      .catch((err) => {
+        console.error('Failed to load playback worklet:', err);
+        this.log('error', 'Failed to load playback worklet', { error: err });
+        this.pendingPlayback = [];
+      })
+      .finally(() => {
+        this.playbackLoading = null;
+      });
+  }
+
+  /** Handle status messages from the playback worklet */
+  private handlePlaybackMessage(
+    msg:
+      | {
+          type: 'started' | 'ended' | 'stats';
+          turnPlayedSamples?: number;
+          bufferedMs?: number;
+          targetLatencyMs?: number;
+          jitterMs?: number;
+          underruns?: number;
+        }
+      | LevelMessage
+  ): void {
+    switch (msg.type) {
+      case 'level':
+        this.updateLevel('output', msg);
+        break;
+      case 'started':
+        this.setState({ isSpeaking: true });
+        break;
+      case 'ended':
+        this.endPlayback();
+        break;
+      case 'stats':
+        this.turnPlayedSamples = msg.turnPlayedSamples ?? 0;
+        this.metrics.playbackBufferMs = msg.bufferedMs ?? 0;
+        this.metrics.playbackTargetLatencyMs = msg.targetLatencyMs ?? 0;
+        this.metrics.playbackJitterMs = msg.jitterMs ?? 0;
+        if (msg.underruns !== undefined && msg.underruns > this.metrics.playbackUnderruns) {
+          this.log('warn', 'Playback underrun', {
+            underruns: msg.underruns,
+            targetLatencyMs: msg.targetLatencyMs,
+          });
+          this.metrics.playbackUnderruns = msg.underruns;
+        }
+        break;
+    }
+  }
+
+  /** Drop all queued playback audio */
+  private flushPlayback(): void {
+    this.pendingPlayback = [];
+    this.playbackNode?.port.postMessage({ type: 'flush' });
+  }
+
+  /** Mark playback as finished once the queue drains (end of the AI's turn) */
+  private endPlayback(): void {
+    this.turnReceivedSamples = 0;
+    this.turnPlayedSamples = 0;
+    this.setState({ isSpeaking: false });
+  }
+
+  /**
+   * Handle server-side interruption (barge-in): stop playback immediately,
+   * drop queued chunks and cut the AI transcript at what was actually heard.
+   */
+  private handleInterruption(): void {
+    // Estimate how much of the turn's audio was heard before the cut
+    const spokenFraction =
+      this.turnReceivedSamples > 0
+        ? Math.min(1, this.turnPlayedSamples / this.turnReceivedSamples)
+        : 1;
+
+    this.flushPlayback();
+    this.endPlayback();
+
+    // Output transcription runs ahead of playback - keep only the spoken part
+    if (this.outputTranscriptTimeout) {
+      clearTimeout(this.outputTranscriptTimeout);
+      this.outputTranscriptTimeout = null;
+    }
+    const fullText = this.outputTranscriptBuffer;
+    let cutIndex = Math.round(fullText.length * spokenFraction);
+    // Finish the word in progress rather than cutting mid-word
+    const nextSpace = fullText.slice(cutIndex).search(/\s/);
+    cutIndex = nextSpace === -1 ? fullText.length : cutIndex + nextSpace;
+    const spokenText = fullText.slice(0, cutIndex).trim();
+    this.outputTranscriptBuffer = '';
+    if (spokenText) {
+      this.addTranscript('assistant', spokenText);
+    }
+
+    this.log('info', 'AI interrupted', { spokenFraction, spokenText });
+    this.setState({ isInterrupted: true, streamingText: null });
+    this.emit('interrupted');
+  }
+
+  /**
+   * Play base64 audio from an AI response (24kHz output from native audio model)
+   */
+  private playAudio(base64Data: string, mimeType: string): void {
+    // Decoded size, without decoding it here
+    const padding = base64Data.endsWith('==') ? 2 : base64Data.endsWith('=') ? 1 : 0;
+    const byteLength = Math.floor((base64Data.length * 3) / 4) - padding;
+    this.playChunk(
+      { type: 'push', base64: base64Data, sampleRate: this.parseSampleRate(mimeType) },
+      byteLength
+    );
+  }
+
+  /**
+   * Hand AI audio to the playback worklet. Everything else happens there, off
+   * the main thread:
+   * - Base64 decoding
+   * - PCM16 little-endian to Float32 conversion
+   * - Resampling to browser's sample rate
+   * - Jitter buffering
+   */
+  private playChunk(chunk: PlaybackChunk, byteLength: number): void {
+    // If speaker is muted, discard audio
+    if (this.state.isSpeakerMuted) {
+      return;
+    }
+
+    // PCM16 = 2 bytes per sample
+    const numSamples = Math.floor(byteLength / 2);
+    if (numSamples < 1) {
+      return;
+    }
+
+    this.ensurePlaybackNode();
+    const ctx = this.playbackContext!;
+
+    // Resume AudioContext if suspended (browser autoplay policy)
+    if (ctx.state === 'suspended') {
+      ctx.resume();
+    }
+
+    // The worklet resamples from source (24kHz) to the browser's actual
+    // sample rate; count received audio at the output rate
+    this.turnReceivedSamples += Math.round((numSamples * ctx.sampleRate) / chunk.sampleRate);
+
+    // Transfer to the worklet (or queue until it has loaded)
+    if (this.playbackNode) {
+      this.postPlayback(this.playbackNode, chunk);
+    } else {
+      this.pendingPlayback.push(chunk);
+    }
+  }
+
+  private postPlayback(
+    node: AudioWorkletNode,
+    chunk: PlaybackChunk | { type: 'turn_complete' }
+  ): void {
+    node.port.postMessage(chunk, 'pcm' in chunk ? [chunk.pcm] : []);
+  }
+
+  /** Bookkeeping for every chunk of AI audio, whichever way it arrived */
+  private countAudioChunk(mimeType: string, size: number): void {
+    if (this.state.isInterrupted) {
+      // A new AI turn has started
+      this.setState({ isInterrupted: false });
+    }
+    this.metrics.audioChunksReceived++;
+    this.recordEvent('audio_chunk', { mimeType, size });
+  }
+
+  /** AI audio as a binary frame (binaryAudio) */
+  private handleAudioFrame(data: ArrayBuffer): void {
+    const parsed = parseAudioFrame(new Uint8Array(data));
+    if (!parsed.ok) {
+      this.reportInvalidMessage(parsed.error);
+      return;
+    }
+    const { pcm, sampleRate } = parsed.message;
+    this.countAudioChunk(`audio/pcm;rate=${sampleRate}`, pcm.byteLength);
+    this.playChunk({ type: 'push', pcm: data, offset: pcm.byteOffset, sampleRate }, pcm.byteLength);
+  }
+
+  // =============================================================================
+  // Screen Sharing
+  // =============================================================================
+
+  /**
+   * Capture and send video frame for screen sharing
+   */
+  private captureAndSendFrame(): void {
+    if (!this.videoElement || !this.canvas || !this.isSocketOpen()) return;
+
+    const video = this.videoElement;
+    const canvas = this.canvas;
+
+    // Set canvas size to match video (scaled down for efficiency)
+    const maxWidth = 1024;
+    const scale = Math.min(1, maxWidth / video.videoWidth);
+    canvas.width = video.videoWidth * scale;
+    canvas.height = video.videoHeight * scale;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+    // Convert to base64 JPEG
+    const dataUrl = canvas.toDataURL('image/jpeg', 0.7);
+    const base64Data = dataUrl.replace(/^data:image\/jpeg;base64,/, '');
+
+    this.send({
+      type: 'frame',
+      data: base64Data,
+    });
+  }
+
+  /** Start frame capture interval (1 FPS) */
+  private startFrameCapture(): void {
+    if (this.frameInterval) {
+      clearInterval(this.frameInterval);
+    }
+    this.frameInterval = setInterval(() => this.captureAndSendFrame(), 1000);
+    this.captureAndSendFrame();
+  }
+
+  /** Stop frame capture */
+  private stopFrameCapture(): void {
+    if (this.frameInterval) {
+      clearInterval(this.frameInterval);
+      this.frameInterval = null;
+    }
+  }
+
+  // =============================================================================
+  // Microphone Capture
+  // =============================================================================
+
+  /**
+   * (Re)start microphone capture on the selected device, stopping any
+   * current capture first. Requests during a start are coalesced into one
+   * restart after it.
+   */
+  private startMicCapture(): Promise<void> {
+    if (this.micStarting) {
+      this.micRestartPending = true;
+      return this.micStarting;
+    }
+    this.micStarting = (async () => {
+      do {
+        this.stopMicCapture();
+        await this.captureMic();
+      } while (this.micRestartPending);
+    })().finally(() => {
+      this.micStarting = null;
+    });
+    return this.micStarting;
+  }
+
+  /**
+   * Start microphone capture (16kHz input for Gemini).
+   * Captures at the hardware sample rate; the AudioWorklet resamples to 16kHz
+   * and does the Float32 to Int16 PCM conversion.
+   * Optionally uses VAD to only send audio when user is speaking.
+   */
+  private async captureMic(): Promise<void> {
+    const { vad = false, vadOptions, resamplerQuality = 'high', pushToTalk = false } = this.options;
+    const generation = this.micGeneration;
+    // Stopped (or restarted) while waiting on the browser
+    const cancelled = () => generation !== this.micGeneration || this.micRestartPending;
+
+    try {
+      this.log('info', 'Starting microphone capture', { vad });
+
+      const stream = await this.openMicStream();
+      if (cancelled()) {
+        stream.getTracks().forEach((track) => track.stop());
+        return;
+      }
+      this.micStream = stream;
+      // Fires when the device goes away, not when we stop the track
+      stream.getAudioTracks()[0]?.addEventListener('ended', () => {
+        void this.handleMicEnded(stream);
+      });
+
+      // Create separate audio context for input processing at the hardware
+      // rate - forcing 16kHz is ignored or rejected by some browsers
+      const ctx = new AudioContext();
+      this.inputContext = ctx;
+
+      // Load audio worklet for processing
+      // This resamples to 16kHz and converts Float32 to Int16 PCM with proper clamping
+      await loadWorklet(ctx, CAPTURE_WORKLET_SOURCE);
+      // stopMicCapture() already released the stream and context
+      if (cancelled()) return;
+
+      const source = ctx.createMediaStreamSource(stream);
+      const worklet = new AudioWorkletNode(ctx, 'audio-processor', {
+        processorOptions: {
+          targetSampleRate: 16000,
+          quality: resamplerQuality,
+          format: this.binaryAudio ? 'frame' : 'base64',
+          meter: this.getMeterConfig(),
+        },
+      });
+      this.audioWorklet = worklet;
+
+      worklet.port.onmessage = (event: MessageEvent<CaptureChunk | LevelMessage>) => {
+        if ('type' in event.data) {
+          this.updateLevel('input', this.state.isMuted ? SILENT_LEVEL : event.data);
+          return;
+        }
+        if (this.state.isMuted) return;
+        if (pushToTalk) {
+          // Only while the push-to-talk button is held
+          if (!this.state.isTalking) return;
+        } else if (vad && !this.userSpeaking) {
+          // If VAD is enabled, only send audio when user is speaking
+          return;
+        }
+
+        if (this.isSocketOpen()) {
+          this.sendAudio(event.data);
+        }
+      };
+
+      source.connect(worklet);
+      // Don't connect to destination to avoid feedback
+
+      // Initialize VAD if enabled
+      if (vad) {
+        const vadThreshold = vadOptions?.threshold ?? 0.5;
+        const vadMinSpeechDuration = vadOptions?.minSpeechDuration ?? 250;
+        const vadSilenceDuration = vadOptions?.silenceDuration ?? 300;
+
+        try {
+          // Dynamically import VAD library (optional dependency)
+          const vadModule = await import('@ricky0123/vad-web');
+          this.log('info', 'Initializing VAD', { threshold: vadThreshold });
+
+          const micVAD = await vadModule.MicVAD.new({
+            stream,
+            positiveSpeechThreshold: vadThreshold,
+            minSpeechFrames: Math.ceil(vadMinSpeechDuration / 32), // ~32ms per frame
+            redemptionFrames: Math.ceil(vadSilenceDuration / 32),
+            onSpeechStart: () => {
+              this.log('verbose', 'VAD: Speech started');
+              this.userSpeaking = true;
+              this.setState({ isUserSpeaking: true });
+            },
+            onSpeechEnd: () => {
+              this.log('verbose', 'VAD: Speech ended');
+              this.userSpeaking = false;
+              this.setState({ isUserSpeaking: false });
+            },
+          });
+
+          if (cancelled()) {
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            (micVAD as any).destroy?.();
+            return;
+          }
+          this.vad = micVAD;
+          micVAD.start();
+          this.log('info', 'VAD started');
+        } catch (vadErr) {
+          this.log('warn', 'VAD initialization failed (is @ricky0123/vad-web installed?)', {
+            error: vadErr,
+          });
+          // Continue without VAD - audio will be sent continuously
+        }
+      }
+    } catch (err) {
+      if (cancelled()) return;
+      console.error('Failed to start microphone:', err);
+      this.log('error', 'Failed to start microphone', { error: err });
+      const errorMsg = 'Failed to access microphone';
+      this.setState({ error: errorMsg });
+      this.emit('error', errorMsg);
+    }
+  }
+
+  /**
+   * Open the selected microphone, falling back to the system default when it
+   * is missing
+   */
+  private async openMicStream(): Promise<MediaStream> {
+    const deviceId = this.state.audioInputDeviceId;
+    const getStream = (id: string | null) =>
+      navigator.mediaDevices.getUserMedia({
+        audio: {
+          ...(id ? { deviceId: { exact: id } } : {}),
+          channelCount: 1,
+          echoCancellation: true,
+          noiseSuppression: true,
+        },
+      });
+
+    try {
+      return await getStream(deviceId);
+    } catch (err) {
+      if (!deviceId || !MISSING_DEVICE_ERRORS.includes((err as DOMException).name)) throw err;
+      this.handleDeviceLost('audioinput', deviceId);
+      return getStream(null);
+    }
+  }
+
+  /** The microphone track ended on its own, e.g. the headset was unplugged */
+  private async handleMicEnded(stream: MediaStream): Promise<void> {
+    if (this.micStream !== stream) return;
+    this.log('warn', 'Microphone track ended', { deviceId: this.state.audioInputDeviceId });
+
+    const deviceId = this.state.audioInputDeviceId;
+    if (deviceId && !(await this.isDeviceAvailable('audioinput', deviceId))) {
+      this.handleDeviceLost('audioinput', deviceId);
+    }
+    // Switched or stopped in the meantime
+    if (this.micStream !== stream) return;
+    await this.startMicCapture();
+  }
+
+  /** Stop microphone capture */
+  private stopMicCapture(): void {
+    this.log('verbose', 'Stopping microphone capture');
+    this.micGeneration++;
+    this.micRestartPending = false;
+
+    // Stop VAD if running
+    if (this.vad) {
+      try {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        (this.vad as any).destroy?.();
+      } catch {
+        // Ignore VAD cleanup errors
+      }
+      this.vad = null;
+      this.userSpeaking = false;
+      this.setState({ isUserSpeaking: false });
+    }
+
+    if (this.micStream) {
+      this.micStream.getTracks().forEach((track) => track.stop());
+      this.micStream = null;
+    }
+    if (this.audioWorklet) {
+      this.audioWorklet.disconnect();
+      this.audioWorklet = null;
+    }
+    if (this.inputContext) {
+      this.inputContext.close();
+      this.inputContext = null;
+    }
+    this.updateLevel('input', SILENT_LEVEL);
+  }
+
+  // =============================================================================
+  // Audio Levels
+  // =============================================================================
+
+  /**
+   * Subscribe to live input/output levels (about 60 updates a second per
+   * stream). Metering only runs in the worklets while someone listens.
+   * @returns Function that removes the listener
+   */
+  subscribeAudioLevels(
+    listener: (levels: AudioLevels) => void,
+    options: AudioLevelsOptions = {}
+  ): () => void {
+    this.levelListeners.set(listener, options);
+    this.configureMeters();
+    return () => {
+      this.levelListeners.delete(listener);
+      this.configureMeters();
+    };
+  }
+
+  /** Latest input/output levels */
+  getAudioLevels(): AudioLevels {
+    return this.audioLevels;
+  }
+
+  private getMeterConfig(): MeterConfig {
+    const subscriptions = Array.from(this.levelListeners.values());
+    return {
+      enabled: subscriptions.length > 0,
+      frequencies: subscriptions.some((options) => !!options.frequencies),
+    };
+  }
+
+  private configureMeters(): void {
+    const message = { type: 'meter', ...this.getMeterConfig() };
+    this.audioWorklet?.port.postMessage(message);
+    this.playbackNode?.port.postMessage(message);
+  }
+
+  private updateLevel(stream: keyof AudioLevels, level: AudioLevel): void {
+    // Only announce silence once
+    if (level === this.audioLevels[stream]) return;
+    const { rms, peak, frequencies } = level;
+    this.audioLevels = {
+      ...this.audioLevels,
+      [stream]: level === SILENT_LEVEL ? level : { rms, peak, frequencies },
+    };
+    for (const listener of Array.from(this.levelListeners.keys())) {
+      listener(this.audioLevels);
+    }
+  }
+
+  // =============================================================================
+  // Audio Devices
+  // =============================================================================
+
+  /**
+   * List microphones and speakers. Labels are empty until the user has
+   * granted microphone access.
+   */
+  async listAudioDevices(): Promise<AudioDevice[]> {
+    if (!navigator.mediaDevices?.enumerateDevices) return [];
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices
+      .filter((device) => device.kind === 'audioinput' || device.kind === 'audiooutput')
+      .map((device) => ({
+        deviceId: device.deviceId,
+        label: device.label,
+        kind: device.kind as AudioDevice['kind'],
+        groupId: device.groupId,
+      }));
+  }
+
+  /**
+   * Switch the microphone (null: system default). An active capture is
+   * restarted on the new device; the session stays connected.
+   */
+  async setInputDevice(deviceId: string | null): Promise<void> {
+    if (deviceId === this.state.audioInputDeviceId) return;
+    this.log('info', 'Switching microphone', { deviceId });
+    this.setState({ audioInputDeviceId: deviceId });
+
+    // Also while capture is still starting, on the old device
+    if (!this.micStream && !this.micStarting) return;
+    await this.startMicCapture();
+  }
+
+  /**
+   * Switch the speaker (null: system default). Browsers without
+   * AudioContext.setSinkId keep playing on the default output.
+   */
+  async setOutputDevice(deviceId: string | null): Promise<void> {
+    if (deviceId === this.state.audioOutputDeviceId) return;
+    this.log('info', 'Switching speaker', { deviceId });
+    this.setState({ audioOutputDeviceId: deviceId });
+
+    if (this.playbackContext) {
+      await this.applyOutputDevice(this.playbackContext);
+    }
+  }
+
+  /** Route the playback context to the selected speaker */
+  private async applyOutputDevice(ctx: SinkableAudioContext): Promise<void> {
+    const deviceId = this.state.audioOutputDeviceId;
+    if (!ctx.setSinkId) {
+      if (deviceId) {
+        this.log('warn', 'Speaker selection is not supported in this browser', { deviceId });
+      }
+      return;
+    }
+
+    try {
+      await ctx.setSinkId(deviceId ?? '');
+    } catch (err) {
+      this.log('warn', 'Failed to switch speaker', { deviceId, error: err });
+      // Only fall back if nothing else was selected meanwhile
+      if (!deviceId || this.state.audioOutputDeviceId !== deviceId) return;
+      this.handleDeviceLost('audiooutput', deviceId);
+      await ctx.setSinkId('').catch(() => {});
+    }
+  }
+
+  private async isDeviceAvailable(kind: AudioDevice['kind'], deviceId: string): Promise<boolean> {
+    try {
+      const devices = await this.listAudioDevices();
+      return devices.some((device) => device.kind === kind && device.deviceId === deviceId);
+    } catch {
+      // Can't tell - assume it's still there
+      return true;
+    }
+  }
+
+  /** Fall back to the system default and tell listeners */
+  private handleDeviceLost(kind: AudioDevice['kind'], deviceId: string): void {
+    this.log('warn', 'Audio device unavailable, using the system default', { kind, deviceId });
+    this.setState(
+      kind === 'audioinput' ? { audioInputDeviceId: null } : { audioOutputDeviceId: null }
+    );
+    this.emit('audioDeviceLost', kind, deviceId);
+  }
+
+  /** Devices were plugged in or removed */
+  private handleDeviceChange = async (): Promise<void> => {
+    const devices = await this.listAudioDevices().catch(() => null);
+    // Device IDs are hidden until microphone access is granted
+    if (!devices || devices.some((device) => !device.deviceId)) return;
+    const has = (kind: AudioDevice['kind'], deviceId: string) =>
+      devices.some((device) => device.kind === kind && device.deviceId === deviceId);
+
+    const { audioInputDeviceId, audioOutputDeviceId } = this.state;
+    if (audioOutputDeviceId && !has('audiooutput', audioOutputDeviceId)) {
+      this.handleDeviceLost('audiooutput', audioOutputDeviceId);
+      if (this.playbackContext) {
+        await this.applyOutputDevice(this.playbackContext);
+      }
+    }
+    if (audioInputDeviceId && !has('audioinput', audioInputDeviceId)) {
+      this.handleDeviceLost('audioinput', audioInputDeviceId);
+      if (this.micStream || this.micStarting) {
+        await this.startMicCapture();
+      }
+    }
+  };
+
+  private watchDevices(watch: boolean): void {
+    const mediaDevices = navigator.mediaDevices;
+    if (watch === this.watchingDevices || !mediaDevices?.addEventListener) return;
+    this.watchingDevices = watch;
+    if (watch) {
+      mediaDevices.addEventListener('devicechange', this.handleDeviceChange);
+    } else {
+      mediaDevices.removeEventListener('devicechange', this.handleDeviceChange);
+    }
+  }
+
+  // =============================================================================
+  // Transcripts
+  // =============================================================================
+
+  /**
+   * Add a transcript entry and emit the transcript event
+   */
+  private addTranscript(role: 'user' | 'assistant', text: string): void {
+    const transcript: Transcript = {
+      id: Date.now().toString(),
+      role,
+      text,
+      timestamp: new Date(),
+    };
+    this.setState({ transcripts: [...this.state.transcripts, transcript] });
+    this.emit('transcript', transcript);
+    this.recordEvent('transcript', { role, text });
+  }
+
+  /** Clear all transcript entries */
+  clearTranscripts(): void {
+    this.setState({ transcripts: [] });
+  }
+
+  // =============================================================================
+  // Browser Control
+  // =============================================================================
+
+  /**
+   * Highlight an element in the DOM with a visual indicator
+   * @param duration - Duration in ms before highlight disappears (default: 3000)
+   */
+  highlightElement(selector: string, message?: string, duration?: number): void {
+    highlightElement(selector, message, duration, this.options.browserControl?.highlightStyle);
+  }
+
+  /** Click an element in the DOM */
+  clickElement(selector: string): Promise<BrowserControlResult> {
+    return clickElement(selector);
+  }
+
+  /** Type text into an input element */
+  typeIntoElement(selector: string, text: string, clear?: boolean): Promise<BrowserControlResult> {
+    return typeIntoElement(selector, text, clear);
+  }
+
+  /** Scroll to an element or in a direction */
+  scrollTo(
+    target: string | { direction: 'up' | 'down' | 'left' | 'right'; amount?: number }
+  ): void {
+    scrollTo(target);
+  }
+
+  /** Execute a browser control command */
+  private executeBrowserControl(cmd: BrowserControlCommand): Promise<BrowserControlResult> {
+    return executeBrowserControl(cmd, {
+      consoleErrors: this.consoleErrors,
+      highlightStyle: this.options.browserControl?.highlightStyle,
+    });
+  }
+
+  /**
+   * Execute a UI command (for autoExecuteUI mode)
+   */
+  private executeUICommand(cmd: UICommand): void {
+    // Default UI command execution - can be enhanced
+    switch (cmd.command) {
+      case 'highlight_element':
+        if (cmd.args.selector) {
+          this.highlightElement(
+            cmd.args.selector as string,
+            cmd.args.message as string | undefined,
+            cmd.args.duration as number | undefined
+          );
+        }
+        break;
+      case 'think_aloud':
+        this.log('info', 'AI thinking aloud', { message: cmd.args.message });
+        break;
+      // Other UI commands would be handled by the uiCommand listeners
+      default:
+        this.log('verbose', 'UI command received', { command: cmd.command, args: cmd.args });
+    }
+  }
+
+  /** Send a browser control result back to the AI */
+  sendBrowserControlResult(toolCallId: string, result: BrowserControlResult): void {
+    if (this.isSocketOpen()) {
+      this.log('info', 'Sending browser control result', { toolCallId, result });
+      this.send({
+        type: 'browser_control_result',
+        toolCallId,
+        result,
+      });
+    }
+  }
+
+  /**
+   * Capture console errors for the browser control get_errors action.
+   * @returns Function that restores the original console.error
+   */
+  captureConsoleErrors(): () => void {
+    const originalError = console.error;
+    console.error = (...args: unknown[]) => {
+      this.consoleErrors.push(args.map(String).join(' '));
+      // Keep only last 100 errors
+      if (this.consoleErrors.length > 100) {
+        this.consoleErrors = this.consoleErrors.slice(-100);
+      }
+      originalError.apply(console, args);
+    };
+
+    return () => {
+      console.error = originalError;
+    };
+  }
+
+  // =============================================================================
+  // Session Recording Engine
+  // =============================================================================
+
+  /**
+   * Record a session event
+   */
+  private recordEvent(type: SessionEvent['type'], data: unknown): void {
+    const { recording } = this.options;
+    if (!this.state.isRecording || !this.recordingStart) return;
+
+    // Check recording config filters
+    if (type === 'audio_chunk' && recording?.audio === false) return;
+    if (type === 'frame_capture' && recording?.frames === false) return;
+    if (type === 'dom_snapshot' && recording?.domSnapshots === false) return;
+
+    const event: SessionEvent = {
+      type,
+      timestamp: Date.now() - this.recordingStart,
+      data,
+    };
+
+    this.recordingEvents.push(event);
+    this.emit('recordingEvent', event);
+
+    // Check max duration
+    if (recording?.maxDuration && event.timestamp >= recording.maxDuration) {
+      // Auto-stop recording
+      this.setState({ isRecording: false });
+    }
+  }
+
+  /** Start recording the session */
+  startRecording(): void {
+    if (this.state.isRecording) return;
+
+    const { recording } = this.options;
+    this.recordingId = `rec_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+    this.recordingStart = Date.now();
+    this.recordingEvents = [];
+    this.setState({ isRecording: true });
+
+    this.log('info', 'Session recording started', { id: this.recordingId });
+
+    // Start DOM snapshot interval if enabled
+    const snapshotInterval = recording?.snapshotInterval ?? 5000;
+    if (recording?.domSnapshots !== false) {
+      this.domSnapshotInterval = setInterval(() => {
+        const dom = serializeDOM(document.body, 3);
+        this.recordEvent('dom_snapshot', { dom });
+      }, snapshotInterval);
+    }
+
+    // Record initial connection state
+    const { connectionState } = this.state;
+    this.recordEvent('connection_change', {
+      connected: connectionState === 'connected',
+      state: connectionState,
+    });
+  }
+
+  /** Stop recording and return the recording data */
+  stopRecording(): SessionRecording {
+    if (this.domSnapshotInterval) {
+      clearInterval(this.domSnapshotInterval);
+      this.domSnapshotInterval = null;
+    }
+
+    const endTime = Date.now();
+    const startTime = this.recordingStart || endTime;
+    const recordingData: SessionRecording = {
+      id: this.recordingId || `rec_${Date.now()}`,
+      startTime,
+      endTime,
+      events: [...this.recordingEvents],
+    };
+
+    this.log('info', 'Session recording stopped', {
+      id: recordingData.id,
+      eventCount: recordingData.events.length,
+      duration: endTime - startTime,
+    });
+
+    this.setState({ isRecording: false });
+    this.recordingEvents = [];
+    this.recordingStart = null;
+    this.recordingId = null;
+
+    return recordingData;
+  }
+
+  /** Export the current recording as a JSON blob */
+  exportRecording(): Blob {
+    const recordingData: SessionRecording = {
+      id: this.recordingId || `rec_${Date.now()}`,
+      startTime: this.recordingStart || Date.now(),
+      endTime: this.state.isRecording ? undefined : Date.now(),
+      events: [...this.recordingEvents],
+    };
+
+    return new Blob([JSON.stringify(recordingData, null, 2)], {
+      type: 'application/json',
+    });
+  }
+
+  // =============================================================================
+  // Smart Element Detection Engine
+  // =============================================================================
+
+  /** Detect interactive elements on the current screen */
+  async detectElements(): Promise<DetectionResult> {
+    this.setState({ isDetecting: true });
+    this.log('info', 'Starting element detection');
+
+    try {
+      const elements = findInteractiveElements();
+
+      // Highlight detected elements if configured
+      if (this.options.smartDetection?.highlightDetections) {
+        elements.forEach((element) => {
+          if (element.selector) {
+            this.highlightElement(element.selector, element.description, 2000);
+          }
+        });
+      }
+
+      const result: DetectionResult = {
+        elements,
+        timestamp: Date.now(),
+      };
+
+      this.setState({ detectedElements: elements, isDetecting: false });
+
+      this.log('info', 'Element detection complete', { count: elements.length });
+
+      // Record detection
+      this.recordEvent('tool_result', { type: 'element_detection', count: elements.length });
+
+      return result;
+    } catch (err) {
+      this.log('error', 'Element detection failed', { error: err });
+      this.setState({ isDetecting: false });
+      return { elements: [], timestamp: Date.now() };
+    }
+  }
+
+  /** Click a detected element by ID */
+  async clickDetectedElement(elementId: string): Promise<BrowserControlResult> {
+    const element = this.state.detectedElements.find((e) => e.id === elementId);
+    if (!element) {
+      return { success: false, error: `Detected element not found: ${elementId}` };
+    }
+
+    // Try selector first
+    if (element.selector) {
+      const result = await clickElement(element.selector);
+      if (result.success) {
+        this.recordEvent('browser_control', {
+          action: 'click',
+          elementId,
+          selector: element.selector,
+        });
+        return result;
+      }
+    }
+
+    // Fallback to coordinate click
+    const centerX = element.bounds.x + element.bounds.width / 2;
+    const centerY = element.bounds.y + element.bounds.height / 2;
+    const targetEl = document.elementFromPoint(centerX, centerY);
+
+    if (targetEl) {
+      (targetEl as HTMLElement).click();
+      this.recordEvent('browser_control', {
+        action: 'click',
+        elementId,
+        coordinates: { x: centerX, y: centerY },
+      });
+      return { success: true, message: `Clicked element at (${centerX}, ${centerY})` };
+    }
+
+    return { success: false, error: 'Could not find element to click' };
+  }
+
+  // =============================================================================
+  // Workflow Builder Engine
+  // =============================================================================
+
+  /** Register a workflow */
+  registerWorkflow(workflow: Workflow): void {
+    this.workflowRegistry.set(workflow.id, workflow);
+    this.log('info', 'Workflow registered', { id: workflow.id, name: workflow.name });
+  }
+
+  /**
+   * Check a workflow condition
+   */
+  private checkCondition(condition: WorkflowStep['condition']): boolean {
+    if (!condition) return true;
+
+    const element = document.querySelector(condition.selector);
+    if (!element) return false;
+
+    switch (condition.check) {
+      case 'exists':
+        return true;
+      case 'visible': {
+        const rect = element.getBoundingClientRect();
+        return rect.width > 0 && rect.height > 0;
+      }
+      case 'contains_text':
+        return element.textContent?.includes(condition.value || '') ?? false;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Execute a single workflow step
+   */
+  private async executeWorkflowStep(
+    step: WorkflowStep,
+    variables: Record<string, unknown>
+  ): Promise<{ result: BrowserControlResult; nextStepId?: string }> {
+    // Check condition if present
+    if (step.condition && !this.checkCondition(step.condition)) {
+      return {
+        result: { success: false, error: 'Condition not met' },
+        nextStepId: step.onError,
+      };
+    }
+
+    switch (step.type) {
+      case 'browser_control': {
+        if (!step.action) {
+          return { result: { success: false, error: 'No action specified' } };
+        }
+        const cmd: BrowserControlCommand = {
+          toolCallId: `wf_${step.id}_${Date.now()}`,
+          action: step.action,
+          args: (step.args || {}) as BrowserControlCommand['args'],
+        };
+        const result = await this.executeBrowserControl(cmd);
+        return {
+          result,
+          nextStepId: result.success
+            ? (Array.isArray(step.next) ? step.next[0] : step.next)
+            : step.onError,
+        };
+      }
+
+      case 'wait': {
+        await new Promise((resolve) => setTimeout(resolve, step.waitMs || 1000));
+        return {
+          result: { success: true, message: `Waited ${step.waitMs}ms` },
+          nextStepId: Array.isArray(step.next) ? step.next[0] : step.next,
+        };
+      }
+
+      case 'condition': {
+        const conditionMet = this.checkCondition(step.condition);
+        const nextSteps = Array.isArray(step.next) ? step.next : [step.next];
+        return {
+          result: { success: true, data: { conditionMet } },
+          nextStepId: conditionMet ? nextSteps[0] : (nextSteps[1] || step.onError),
+        };
+      }
+
+      case 'ai_prompt': {
+        if (step.prompt) {
+          this.send({
+            type: 'text',
+            text: step.prompt,
+          });
+        }
+        return {
+          result: { success: true, message: 'AI prompt sent' },
+          nextStepId: Array.isArray(step.next) ? step.next[0] : step.next,
+        };
+      }
+
+      default:
+        return { result: { success: false, error: `Unknown step type: ${step.type}` } };
+    }
+  }
+
+  /** Execute a workflow by ID */
+  async executeWorkflow(
+    id: string,
+    initialVariables?: Record<string, unknown>
+  ): Promise<WorkflowExecution> {
+    const workflow = this.workflowRegistry.get(id);
+    if (!workflow) {
+      const execution: WorkflowExecution = {
+        workflowId: id,
+        status: 'failed',
+        currentStepId: '',
+        variables: {},
+        history: [],
+        error: `Workflow not found: ${id}`,
+      };
+      this.setState({ workflowExecution: execution });
+      return execution;
+    }
+
+    this.workflowPaused = false;
+    this.workflowCancelled = false;
+
+    const variables = { ...workflow.variables, ...initialVariables };
+    const execution: WorkflowExecution = {
+      workflowId: id,
+      status: 'running',
+      currentStepId: workflow.entryPoint,
+      variables,
+      history: [],
+    };
+
+    this.setState({ workflowExecution: execution });
+    this.log('info', 'Workflow execution started', { id, entryPoint: workflow.entryPoint });
+
+    // Record workflow start
+    this.recordEvent('tool_call', { type: 'workflow_start', workflowId: id });
+
+    let currentStepId: string | undefined = workflow.entryPoint;
+
+    while (currentStepId && !this.workflowCancelled) {
+      // Check for pause
+      while (this.workflowPaused && !this.workflowCancelled) {
+        await new Promise((resolve) => setTimeout(resolve, 100));
+      }
+
+      if (this.workflowCancelled) break;
+
+      const step: WorkflowStep | undefined = workflow.steps[currentStepId];
+      if (!step) {
+        execution.status = 'failed';
+        execution.error = `Step not found: ${currentStepId}`;
+        break;
+      }
+
+      execution.currentStepId = currentStepId;
+      this.setState({ workflowExecution: { ...execution } });
+
+      const { result, nextStepId } = await this.executeWorkflowStep(step, variables);
+
+      execution.history.push({
+        stepId: currentStepId,
+        result,
+        timestamp: Date.now(),
+      });
+
+      // Record step execution
+      this.recordEvent('tool_result', {
+        type: 'workflow_step',
+        stepId: currentStepId,
+        result,
+      });
+
+      if (!result.success && !step.onError) {
+        execution.status = 'failed';
+        execution.error = result.error;
+        break;
+      }
+
+      currentStepId = nextStepId;
+    }
+
+    if (this.workflowCancelled) {
+      execution.status = 'failed';
+      execution.error = 'Workflow cancelled';
+    } else if (execution.status === 'running') {
+      execution.status = 'completed';
+    }
+
+    this.setState({ workflowExecution: { ...execution } });
+    this.log('info', 'Workflow execution finished', {
+      id,
+      status: execution.status,
+      stepsExecuted: execution.history.length,
+    });
+
+    return execution;
+  }
+
+  /** Pause the current workflow */
+  pauseWorkflow(): void {
+    const { workflowExecution } = this.state;
+    if (workflowExecution?.status === 'running') {
+      this.workflowPaused = true;
+      this.setState({ workflowExecution: { ...workflowExecution, status: 'paused' } });
+      this.log('info', 'Workflow paused');
+    }
+  }
+
+  /** Resume a paused workflow */
+  resumeWorkflow(): void {
+    const { workflowExecution } = this.state;
+    if (workflowExecution?.status === 'paused') {
+      this.workflowPaused = false;
+      this.setState({ workflowExecution: { ...workflowExecution, status: 'running' } });
+      this.log('info', 'Workflow resumed');
+    }
+  }
+
+  /** Cancel the current workflow */
+  cancelWorkflow(): void {
+    const { workflowExecution } = this.state;
+    if (workflowExecution?.status === 'running' || workflowExecution?.status === 'paused') {
+      this.workflowCancelled = true;
+      this.workflowPaused = false;
+      this.log('info', 'Workflow cancellation requested');
+    }
+  }
+
+  // =============================================================================
+  // Connection
+  // =============================================================================
+
+  /**
+   * Build the context passed to tool call listeners, read from current state
+   */
+  private getToolCallContext(): ToolCallContext {
+    const { state } = this;
+    return {
+      transcripts: state.transcripts,
+      streamingText: state.streamingText,
+      streamingUserText: state.streamingUserText,
+      isConnected: state.connectionState === 'connected',
+      isSpeaking: state.isSpeaking,
+      isMuted: state.isMuted,
+      sendText: (text) => this.sendText(text),
+      executeWorkflow: (id, variables) => this.executeWorkflow(id, variables),
+      detectElements: () => this.detectElements(),
+      clickDetectedElement: (elementId) => this.clickDetectedElement(elementId),
+      clickElement: (selector) => this.clickElement(selector),
+      typeIntoElement: (selector, text, clear) => this.typeIntoElement(selector, text, clear),
+      highlightElement: (selector, message, duration) =>
+        this.highlightElement(selector, message, duration),
+      workflowExecution: state.workflowExecution,
+      detectedElements: state.detectedElements,
+    };
+  }
+
+  /** Add a response's token usage to the cumulative metrics */
+  private addUsage(usage: UsageMetadata): void {
+    const { metrics } = this;
+    metrics.totalInputTokens += usage.promptTokenCount ?? 0;
+    metrics.totalOutputTokens += (usage.responseTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0);
+    for (const { modality, tokenCount } of usage.promptTokensDetails ?? []) {
+      metrics.inputTokens[modality] = (metrics.inputTokens[modality] ?? 0) + (tokenCount ?? 0);
+    }
+    for (const { modality, tokenCount } of usage.responseTokensDetails ?? []) {
+      metrics.outputTokens[modality] = (metrics.outputTokens[modality] ?? 0) + (tokenCount ?? 0);
+    }
+    this.log('verbose', 'Token usage', {
+      input: usage.promptTokenCount,
+      output: usage.responseTokenCount,
+    });
+  }
+
+  /**
+   * Handle a message received from the proxy
+   */
+  private handleMessage(data: ProxyMessage): void {
+    const transcriptDebounceMs = this.options.transcriptDebounceMs ?? 1500;
+
+    switch (data.type) {
+      case 'setup_complete': {
+        const mismatch = checkProtocolVersion(data.protocolVersion, 'proxy');
+        if (mismatch) {
+          this.rejectProxy(mismatch);
+          break;
+        }
+        this.log('info', 'Setup complete, starting audio capture', { resumed: !!data.resumed });
+        this.setupCompleted = true;
+        this.binaryAudio = data.binaryAudio === true;
+        this.maxContentBytes = data.maxContentBytes ?? null;
+        this.confirmPushToTalk(data);
+        this.metrics.lastConnectedAt = Date.now();
+        this.setState({
+          connectionState: 'connected',
+          resumed: !!data.resumed,
+          serverTools: data.serverTools ?? [],
+        });
+        this.emit('connectionChange', true);
+        this.recordEvent('connection_change', { connected: true });
+        if (this.videoElement) {
+          this.startFrameCapture();
+        }
+        if (this.options.microphone !== false) {
+          this.startMicCapture();
+        }
+        // Send welcome message to trigger AI greeting
+        if (this.options.welcomeMessage && this.isSocketOpen()) {
+          this.log('verbose', 'Sending welcome message', {
+            welcomeMessage: this.options.welcomeMessage,
+          });
+          this.send({
+            type: 'text',
+            text: this.options.welcomeMessage,
+          });
+        }
+        break;
+      }
+
+      case 'audio':
+        if (data.data && data.mimeType) {
+          this.countAudioChunk(data.mimeType, data.data.length);
+          this.playAudio(data.data, data.mimeType);
+        }
+        break;
+
+      case 'input_transcription':
+        // User's speech transcribed to text - accumulate chunks
+        if (data.text) {
+          this.inputTranscriptBuffer += data.text;
+
+          // Update streaming state for real-time display
+          this.setState({ streamingUserText: this.inputTranscriptBuffer.trim() });
+
+          if (this.inputTranscriptTimeout) {
+            clearTimeout(this.inputTranscriptTimeout);
+          }
+
+          this.inputTranscriptTimeout = setTimeout(() => {
+            const finalText = this.inputTranscriptBuffer.trim();
+            if (finalText) {
+              this.addTranscript('user', finalText);
+              this.inputTranscriptBuffer = '';
+            }
+            // Clear streaming state after finalizing
+            this.setState({ streamingUserText: null });
+          }, transcriptDebounceMs);
+        }
+        break;
+
+      case 'output_transcription':
+        // AI's speech transcribed to text - accumulate chunks
+        if (data.text) {
+          this.outputTranscriptBuffer += data.text;
+
+          // Update streaming state for real-time display
+          this.setState({ streamingText: this.outputTranscriptBuffer.trim() });
+
+          if (this.outputTranscriptTimeout) {
+            clearTimeout(this.outputTranscriptTimeout);
+          }
+
+          this.outputTranscriptTimeout = setTimeout(() => {
+            const finalText = this.outputTranscriptBuffer.trim();
+            if (finalText) {
+              this.addTranscript('assistant', finalText);
+              this.outputTranscriptBuffer = '';
+            }
+            // Clear streaming state after finalizing
+            this.setState({ streamingText: null });
+          }, transcriptDebounceMs);
+        }
+        break;
+
+      case 'response':
+        // Audio sessions can carry text parts too; only text sessions show them
+        if (data.text && this.getResponseModality() === 'text') {
+          this.outputTranscriptBuffer += data.text;
+          this.setState({ streamingText: this.outputTranscriptBuffer.trim() });
+        }
+        break;
+
+      case 'turn_complete':
+        // Lets the jitter buffer play out the tail instead of waiting for more
+        // audio; queued behind the turn's chunks while the worklet loads
+        if (this.playbackNode) {
+          this.postPlayback(this.playbackNode, { type: 'turn_complete' });
+        } else if (this.playbackLoading) {
+          this.pendingPlayback.push({ type: 'turn_complete' });
+        }
+        // Text replies end with the turn rather than after a pause
+        if (this.getResponseModality() === 'text') {
+          const finalText = this.outputTranscriptBuffer.trim();
+          this.outputTranscriptBuffer = '';
+          if (finalText) {
+            this.addTranscript('assistant', finalText);
+          }
+          this.setState({ streamingText: null });
+        }
+        break;
+
+      case 'interrupted':
+        this.handleInterruption();
+        break;
+
+      case 'session_handle':
+        // Only keep handles the server says can actually be resumed
+        if (data.handle && data.resumable !== false) {
+          this.sessionHandle = data.handle;
+        }
+        break;
+
+      case 'error': {
+        const errorMsg = data.message ?? 'Unknown error';
+        this.log('error', 'Received error', { message: errorMsg, code: data.code });
+        this.recordEvent('error', { message: errorMsg, code: data.code });
+        // The proxy dropped one of our messages - the session itself is fine
+        if (data.code === 'invalid_message') {
+          this.reportError(errorMsg, data.code);
+          break;
+        }
+        this.fail(errorMsg, data.code ?? null);
+        break;
+      }
+
+      case 'disconnected':
+        // The old Gemini connection ended mid-migration - the new one takes over
+        if (this.migratingSocket) {
+          this.log('verbose', 'Server disconnected during migration', { reason: data.reason });
+          this.disconnectedDuringMigration = data.reason;
+          break;
+        }
+        this.handleServerDisconnect(data.reason);
+        break;
+
+      case 'tool_call': {
+        if (!data.toolCallId || !data.toolName) break;
+
+        // Check if it's a UI command
+        if (UI_COMMANDS.includes(data.toolName as UICommandType)) {
+          const uiCommand: UICommand = {
+            toolCallId: data.toolCallId,
+            command: data.toolName as UICommandType,
+            args: data.args || {},
+          };
+
+          this.log('info', 'Received UI command', { command: uiCommand });
+          this.recordEvent('ui_command', { command: uiCommand.command, args: uiCommand.args });
+
+          if (this.options.browserControl?.autoExecuteUI) {
+            this.executeUICommand(uiCommand);
+          }
+
+          this.emit('uiCommand', uiCommand);
+        } else {
+          // Handle as regular tool call
+          this.log('info', 'Received tool call', {
+            id: data.toolCallId,
+            name: data.toolName,
+            args: data.args,
+          });
+          this.recordEvent('tool_call', {
+            id: data.toolCallId,
+            name: data.toolName,
+            args: data.args,
+          });
+
+          this.emit(
+            'toolCall',
+            { id: data.toolCallId, name: data.toolName, args: data.args ?? {} },
+            this.getToolCallContext()
+          );
+        }
+        break;
+      }
+
+      case 'go_away':
+        // Gemini will drop this session soon - move to a new connection first
+        this.log('warn', 'Session ending soon', { timeLeftMs: data.timeLeftMs });
+        this.migrateSession();
+        break;
+
+      case 'usage': {
+        if (data.usage) {
+          this.addUsage(data.usage);
+          this.emit('usage', data.usage);
+        }
+        break;
+      }
+
+      case 'server_tool_call': {
+        if (!data.toolCallId || !data.toolName) break;
+
+        // Already answered by the proxy - just report it
+        const call: ServerToolCall = {
+          id: data.toolCallId,
+          name: data.toolName,
+          success: data.success !== false,
+        };
+        this.log('info', 'Server-side tool call', call);
+        this.emit('serverToolCall', call);
+        break;
+      }
+
+      case 'browser_control': {
+        // AI wants to control the browser
+        if (data.toolCallId && data.action) {
+          const bcCommand: BrowserControlCommand = {
+            toolCallId: data.toolCallId,
+            action: data.action,
+            args: (data.args as BrowserControlCommand['args']) || {},
+          };
+
+          this.log('info', 'Received browser control command', { command: bcCommand });
+          this.recordEvent('browser_control', { action: bcCommand.action, args: bcCommand.args });
+
+          if (this.options.browserControl?.autoExecute) {
+            // Auto-execute and send result back
+            this.executeBrowserControl(bcCommand).then((result) => {
+              this.sendBrowserControlResult(bcCommand.toolCallId, result);
+            });
+          }
+
+          this.emit('browserControl', bcCommand);
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * Connect to the Gemini Live proxy
+   * @param videoElement - Optional video element for screen sharing
+   */
+  async connect(videoElement?: HTMLVideoElement): Promise<void> {
+    const { proxyUrl, sessionId } = this.options;
+
+    if (this.isSocketOpen()) {
+      this.log('verbose', 'Already connected, skipping');
+      return;
+    }
+
+    this.log('info', 'Connecting to proxy', { proxyUrl, sessionId });
+    this.setState({ connectionState: 'connecting', error: null, errorCode: null });
+    this.watchDevices(true);
+
+    if (videoElement) {
+      this.videoElement = videoElement;
+      if (!this.canvas) {
+        this.canvas = document.createElement('canvas');
+      }
+    }
+
+    try {
+      const socket = await this.openSocket();
+      if (!socket) return;
+
+      this.setupCompleted = false;
+      this.socket = socket;
+      this.attachSocket(socket);
+    } catch (err) {
+      this.log('error', 'Connection failed', { error: err });
+      this.fail('Failed to connect to AI');
+    }
+  }
+
+  /**
+   * Open a socket with a fresh auth token and the latest session handle,
+   * sending the setup message once it opens. Returns null if disconnect()
+   * was called while waiting, or the proxy refused a direct connection.
+   */
+  private async openSocket(): Promise<WebSocket | null> {
+    const { getAuthToken, connectionMode = 'relay' } = this.options;
+
+    // Fetch a fresh token for every (re)connect
+    const authToken = (getAuthToken ? await getAuthToken() : null) ?? null;
+    if (this.state.connectionState === 'idle') {
+      // disconnect() was called while waiting for the token
+      return null;
+    }
+
+    return connectionMode === 'direct'
+      ? this.openDirectSocket(authToken)
+      : this.openRelaySocket(authToken);
+  }
+
+  /** Modality the session was asked to answer in */
+  private getResponseModality(): 'text' | 'audio' {
+    const { responseModality, sessionConfig } = this.options;
+    if (responseModality) return responseModality;
+    return sessionConfig?.responseModalities?.[0] === 'TEXT' ? 'text' : 'audio';
+  }
+
+  /** Setup the proxy configures Gemini with (also the body of token requests) */
+  private getSetupMessage(): SetupMessage {
+    const { tools, browserControl, sessionConfig, responseModality } = this.options;
+    // Opting into browser control makes the proxy declare its built-in
+    // browser tools
+    const message: SetupMessage = {
+      type: 'setup',
+      protocolVersion: PROTOCOL_VERSION,
+      tools: tools ?? [],
+    };
+    if (browserControl) {
+      message.browserControl = { actions: this.getBrowserActions() };
+    }
+    if (sessionConfig || responseModality) {
+      message.sessionConfig = {
+        ...sessionConfig,
+        ...(responseModality && {
+          responseModalities: [responseModality === 'text' ? 'TEXT' : 'AUDIO'],
+        }),
+      };
+    }
+    if (this.options.binaryAudio && this.options.connectionMode !== 'direct') {
+      message.binaryAudio = true;
+    }
+    if (this.options.pushToTalk) {
+      message.pushToTalk = true;
+    }
+    if (this.options.activityDetection) {
+      message.activityDetection = this.options.activityDetection;
+    }
+    return message;
+  }
+
+  /** Connect through the proxy, which relays every message to Gemini */
+  private openRelaySocket(authToken: string | null): WebSocket {
+    const { proxyUrl, sessionId, authTokenTransport = 'protocol' } = this.options;
+
+    const params = new URLSearchParams();
+    if (sessionId) {
+      params.set('session_id', sessionId);
+    }
+    if (authToken && authTokenTransport === 'query') {
+      params.set('access_token', authToken);
+    }
+    // Resume the previous Gemini conversation so context survives reconnects
+    if (this.sessionHandle) {
+      this.log('info', 'Resuming session', { handle: this.sessionHandle });
+      params.set('session_handle', this.sessionHandle);
+    }
+
+    let wsUrl = proxyUrl;
+    const query = params.toString();
+    if (query) {
+      const separator = proxyUrl.includes('?') ? '&' : '?';
+      wsUrl += `${separator}${query}`;
+    }
+
+    const socket =
+      authToken && authTokenTransport === 'protocol'
+        ? new WebSocket(wsUrl, [WS_PROTOCOL, `bearer.${authToken}`])
+        : new WebSocket(wsUrl);
+    // Binary audio frames are read synchronously, in order
+    socket.binaryType = 'arraybuffer';
+
+    socket.onopen = () => {
+      this.log('info', 'WebSocket opened');
+      this.reconnectAttempts = 0;
+
+      // Send session config and tool definitions - the proxy configures
+      // Gemini once this arrives
+      const message = this.getSetupMessage();
+      this.log('info', 'Sending setup', {
+        tools: message.tools,
+        browserControl: message.browserControl,
+        sessionConfig: message.sessionConfig,
+      });
+      socket.send(JSON.stringify(message));
+    };
+
+    return socket;
+  }
+
+  /**
+   * Get an ephemeral token from the proxy and connect to Gemini directly.
+   * The proxy validates the session config and locks it into the token.
+   */
+  private async openDirectSocket(authToken: string | null): Promise<WebSocket | null> {
+    const { proxyUrl } = this.options;
+    const setup = this.getSetupMessage();
+
+    this.log('info', 'Requesting ephemeral token', {
+      tools: setup.tools,
+      browserControl: setup.browserControl,
+      sessionConfig: setup.sessionConfig,
+    });
+    const res = await fetch(proxyUrl.replace(/^ws/, 'http'), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(authToken && { Authorization: `Bearer ${authToken}` }),
+      },
+      body: JSON.stringify(setup),
+    });
+    if (this.state.connectionState === 'idle') return null;
+
+    if (!res.ok) {
+      const body = await res.json().catch(() => null);
+      const message: string = body?.error?.message ?? `Token request failed (${res.status})`;
+      // Retrying can't fix a rejected token request
+      if (res.status >= 400 && res.status < 500) {
+        this.log('error', 'Ephemeral token rejected', { status: res.status, body });
+        this.fail(message, body?.error?.code ?? null);
+        return null;
+      }
+      throw new Error(message);
+    }
+    const token: EphemeralToken = await res.json();
+
+    const separator = token.url.includes('?') ? '&' : '?';
+    const socket = new WebSocket(
+      `${token.url}${separator}access_token=${encodeURIComponent(token.token)}`
+    );
+    socket.binaryType = 'arraybuffer';
+    this.directSockets.add(socket);
+
+    socket.onopen = () => {
+      this.log('info', 'WebSocket opened (direct)', { model: token.model });
+      this.reconnectAttempts = 0;
+      if (this.sessionHandle) {
+        this.log('info', 'Resuming session', { handle: this.sessionHandle });
+      }
+      socket.send(
+        JSON.stringify(
+          this.nativeProtocol.setupMessage(token.model, this.sessionHandle, !!setup.pushToTalk)
+        )
+      );
+    };
+
+    return socket;
+  }
+
+  /** Route a socket's messages, errors and close to this client */
+  private attachSocket(socket: WebSocket): void {
+    socket.onmessage = (event) => {
+      try {
+        this.metrics.messagesReceived++;
+        if (this.isAudioFrame(socket, event)) {
+          this.handleAudioFrame(event.data);
+          return;
+        }
+        for (const data of this.decodeMessages(socket, event)) {
+          this.log('verbose', 'Received message', { type: data.type });
+          this.handleMessage(data);
+        }
+      } catch (e) {
+        console.error('Error parsing WebSocket message:', e);
+      }
+    };
+
+    socket.onerror = () => {
+      this.log('error', 'WebSocket error');
+      this.fail('Connection error');
+    };
+
+    socket.onclose = (event) => this.handleClose(event);
+  }
+
+  /**
+   * Gemini is about to end the session (GoAway). Resume it on a second
+   * connection and swap sockets once that one is set up, so mic audio keeps
+   * flowing and the connection state never leaves 'connected'.
+   */
+  private async migrateSession(): Promise<void> {
+    if (this.migratingSocket) return;
+    if (!this.sessionHandle) {
+      this.log('warn', 'No session handle to migrate with, will reconnect when dropped');
+      return;
+    }
+
+    this.log('info', 'Migrating session', { handle: this.sessionHandle });
+    let opened: WebSocket | null;
+    try {
+      opened = await this.openSocket();
+    } catch (err) {
+      this.log('warn', 'Session migration failed', { error: err });
+      return;
+    }
+    if (!opened) return;
+    const socket = opened;
+    this.migratingSocket = socket;
+
+    // Only the new session's handle updates matter until it takes over
+    socket.onmessage = (event) => {
+      // No audio plays from the new session before it takes over
+      if (this.isAudioFrame(socket, event)) return;
+      let messages: ProxyMessage[];
+      try {
+        messages = this.decodeMessages(socket, event);
+      } catch {
+        return;
+      }
+      for (const data of messages) {
+        if (data.type === 'setup_complete') {
+          const mismatch = checkProtocolVersion(data.protocolVersion, 'proxy');
+          if (mismatch) {
+            this.log('warn', 'Session migration rejected', { message: mismatch });
+            this.abortMigration(socket);
+            return;
+          }
+          this.completeMigration(socket, data);
+        } else if (data.type === 'session_handle') {
+          this.handleMessage(data);
+        } else if (data.type === 'error') {
+          this.log('warn', 'Session migration rejected', { message: data.message });
+          this.abortMigration(socket);
+        }
+      }
+    };
+    socket.onerror = () => this.log('warn', 'Migration socket error');
+    socket.onclose = () => this.abortMigration(socket);
+  }
+
+  /** The proxy ended the session (Gemini closed its side) */
+  private handleServerDisconnect(reason: string): void {
+    this.log('info', 'Server disconnected', { reason });
+    this.recordEvent('connection_change', { connected: false, reason });
+    this.setState({ connectionState: 'disconnected' });
+    this.emit('connectionChange', false);
+    this.stopFrameCapture();
+    this.stopMicCapture();
+  }
+
+  /** The new connection is set up - make it the active one */
+  private completeMigration(socket: WebSocket, data: SetupCompleteMessage): void {
+    const previous = this.socket;
+    this.migratingSocket = null;
+    this.closedDuringMigration = null;
+    this.disconnectedDuringMigration = null;
+    this.socket = socket;
+    this.attachSocket(socket);
+
+    if (previous) {
+      previous.onmessage = null;
+      previous.onerror = null;
+      previous.onclose = null;
+      previous.close(1000, 'Session migrated');
+    }
+
+    this.binaryAudio = data.binaryAudio === true;
+    this.maxContentBytes = data.maxContentBytes ?? null;
+    this.confirmPushToTalk(data);
+    this.audioWorklet?.port.postMessage({
+      type: 'format',
+      format: this.binaryAudio ? 'frame' : 'base64',
+    });
+    this.log('info', 'Session migrated', { resumed: !!data.resumed });
+    this.setState({ resumed: !!data.resumed, serverTools: data.serverTools ?? [] });
+  }
+
+  /**
+   * Push-to-talk needs the proxy to turn off Gemini's activity detection;
+   * older proxies don't, so only the mic gating applies there. A turn still
+   * held when the connection changes is started again.
+   */
+  private confirmPushToTalk(data: SetupCompleteMessage): void {
+    this.pushToTalk = data.pushToTalk === true;
+    if (this.options.pushToTalk && !this.pushToTalk) {
+      this.log('warn', 'Proxy did not confirm push-to-talk, Gemini detects turns itself');
+    }
+    if (this.pushToTalk && this.state.isTalking) {
+      this.send({ type: 'activity_start' });
+    }
+  }
+
+  /**
+   * The proxy speaks another protocol version - stop here instead of
+   * guessing at its messages (reconnecting would fail the same way)
+   */
+  private rejectProxy(message: string): void {
+    this.log('error', 'Protocol mismatch', { message });
+    const socket = this.socket;
+    if (socket) {
+      socket.onmessage = null;
+      socket.onerror = null;
+      socket.onclose = null;
+      socket.close(1000, 'Protocol mismatch');
+      this.socket = null;
+    }
+    this.fail(message, 'protocol_mismatch');
+  }
+
+  /** Give up on a migration, falling back to a normal reconnect if needed */
+  private abortMigration(socket: WebSocket): void {
+    if (this.migratingSocket !== socket) return;
+    this.migratingSocket = null;
+    socket.onmessage = null;
+    socket.onerror = null;
+    socket.onclose = null;
+    socket.close();
+    this.log('warn', 'Session migration failed');
+
+    // The old connection already ended or dropped while we were migrating
+    const disconnected = this.disconnectedDuringMigration;
+    const closed = this.closedDuringMigration;
+    this.disconnectedDuringMigration = null;
+    this.closedDuringMigration = null;
+    if (disconnected !== null) {
+      this.handleServerDisconnect(disconnected);
+    }
+    if (closed) {
+      this.handleClose(closed);
+    }
+  }
+
+  /**
+   * Handle the proxy socket closing - reconnects with exponential backoff
+   * unless the close was intentional (code 1000)
+   */
+  private handleClose(event: CloseEvent): void {
+    const maxReconnectAttempts = this.options.reconnection?.maxAttempts ?? 5;
+    const maxReconnectDelay = this.options.reconnection?.maxDelay ?? 10000;
+    const reconnectBackoffFactor = this.options.reconnection?.backoffFactor ?? 2;
+
+    this.log('info', 'WebSocket closed', { code: event.code, reason: event.reason });
+
+    // The old connection dropped mid-migration - the new one takes over
+    if (this.migratingSocket) {
+      this.closedDuringMigration = event;
+      return;
+    }
+
+    // A handle that fails setup is stale - start a fresh conversation next time
+    if (!this.setupCompleted && this.sessionHandle) {
+      this.log('warn', 'Session resumption failed, discarding handle');
+      this.sessionHandle = null;
+    }
+
+    this.emit('connectionChange', false);
+    this.stopFrameCapture();
+    this.stopMicCapture();
+
+    // Rejected by the proxy - reconnecting would fail the same way
+    if (event.code === CLOSE_UNAUTHORIZED || event.code === CLOSE_ORIGIN_NOT_ALLOWED) {
+      this.log('error', 'Connection rejected by proxy', { code: event.code });
+      this.fail(event.reason || 'Unauthorized', this.state.errorCode);
+      return;
+    }
+
+    // The proxy speaks another protocol version. It already sent an error
+    // message with the details.
+    if (event.code === CLOSE_PROTOCOL_MISMATCH) {
+      this.log('error', 'Protocol mismatch', { reason: event.reason });
+      this.fail(this.state.error ?? (event.reason || 'Protocol mismatch'), 'protocol_mismatch');
+      return;
+    }
+
+    // Over a rate limit or quota - reconnecting would just loop. The proxy
+    // already sent an error message with the details.
+    if (event.code === CLOSE_RATE_LIMITED) {
+      this.log('warn', 'Rate limited by proxy', {
+        reason: event.reason,
+        code: this.state.errorCode,
+      });
+      this.setState({
+        connectionState: 'rate_limited',
+        error: this.state.error ?? (event.reason || 'Rate limited'),
+      });
+      return;
+    }
+
+    // Attempt reconnect if unexpected close
+    if (event.code !== 1000 && this.reconnectAttempts < maxReconnectAttempts) {
+      this.reconnectAttempts++;
+      this.metrics.reconnectCount++;
+      const delay = Math.min(
+        this.reconnectDelay * Math.pow(reconnectBackoffFactor, this.reconnectAttempts - 1),
+        maxReconnectDelay
+      );
+      this.log('info', 'Scheduling reconnect', {
+        attempt: this.reconnectAttempts,
+        maxAttempts: maxReconnectAttempts,
+        delayMs: delay,
+      });
+      this.setState({ connectionState: 'reconnecting' });
+      setTimeout(() => {
+        this.connect(this.videoElement ?? undefined).catch(() => {
+          if (this.reconnectAttempts >= maxReconnectAttempts) {
+            this.log('error', 'Max reconnect attempts reached');
+            this.fail('Failed to reconnect. Please refresh the page.');
+          }
+        });
+      }, delay);
+    } else if (this.reconnectAttempts >= maxReconnectAttempts) {
+      this.log('error', 'Connection lost after max attempts');
+      this.fail('Connection lost. Please refresh the page to reconnect.');
+    } else {
+      // Normal close (code 1000)
+      this.setState({ connectionState: 'disconnected' });
+    }
+  }
+
+  /** Disconnect from the proxy and clean up all resources */
+  disconnect(): void {
+    this.log('info', 'Disconnecting');
+
+    // Update total connected time
+    if (this.metrics.lastConnectedAt !== null) {
+      this.metrics.totalConnectedTime += Date.now() - this.metrics.lastConnectedAt;
+      this.metrics.lastConnectedAt = null;
+    }
+
+    this.stopFrameCapture();
+    this.stopMicCapture();
+    this.watchDevices(false);
+
+    // Clear audio queue and stop playback
+    this.pendingPlayback = [];
+    this.playbackNode = null;
+    this.updateLevel('output', SILENT_LEVEL);
+    this.turnReceivedSamples = 0;
+    this.turnPlayedSamples = 0;
+
+    if (this.playbackContext) {
+      this.playbackContext.close();
+      this.playbackContext = null;
+    }
+
+    // Clean up VAD
+    this.vad = null;
+
+    // Clear transcript timeouts and flush buffers
+    if (this.inputTranscriptTimeout) {
+      clearTimeout(this.inputTranscriptTimeout);
+      this.inputTranscriptTimeout = null;
+    }
+    if (this.outputTranscriptTimeout) {
+      clearTimeout(this.outputTranscriptTimeout);
+      this.outputTranscriptTimeout = null;
+    }
+    this.inputTranscriptBuffer = '';
+    this.outputTranscriptBuffer = '';
+
+    // Clean up recording DOM snapshot interval
+    if (this.domSnapshotInterval) {
+      clearInterval(this.domSnapshotInterval);
+      this.domSnapshotInterval = null;
+    }
+
+    if (this.socket) {
+      this.socket.close(1000, 'User disconnected');
+      this.socket = null;
+    }
+    if (this.migratingSocket) {
+      this.migratingSocket.onclose = null;
+      this.migratingSocket.close(1000, 'User disconnected');
+      this.migratingSocket = null;
+    }
+    this.closedDuringMigration = null;
+    this.disconnectedDuringMigration = null;
+    // Ending the session on purpose starts a new conversation next time
+    this.sessionHandle = null;
+
+    this.setState({
+      connectionState: 'idle',
+      resumed: false,
+      isSpeaking: false,
+      isUserSpeaking: false,
+      isTalking: false,
+      isInterrupted: false,
+      streamingText: null,
+      streamingUserText: null,
+      transcripts: [],
+    });
+    this.reconnectAttempts = 0;
+    this.reconnectDelay = this.options.reconnection?.initialDelay ?? 1000;
+    this.emit('connectionChange', false);
+  }
+
+  /** Manually retry connection after error or disconnect */
+  async retry(): Promise<void> {
+    const { connectionState } = this.state;
+    if (
+      connectionState === 'error' ||
+      connectionState === 'rate_limited' ||
+      connectionState === 'disconnected'
+    ) {
+      this.reconnectAttempts = 0;
+      this.reconnectDelay = this.options.reconnection?.initialDelay ?? 1000;
+      this.setState({ error: null, errorCode: null });
+      await this.connect(this.videoElement ?? undefined);
+    }
+  }
+
+  /** Send a text message to Gemini */
+  sendText(text: string): void {
+    if (this.isSocketOpen()) {
+      this.log('verbose', 'Sending text message', { text });
+      this.send({
+        type: 'text',
+        text,
+      });
+    }
+  }
+
+  /**
+   * Send a user turn mixing text, images, PDFs and other files. Blobs and
+   * Files keep their MIME type and canvases are sent as JPEG. Rejects if a
+   * part can't be encoded or is over the proxy's size limit.
+   */
+  async sendContent(parts: ContentInput[], options: SendContentOptions = {}): Promise<void> {
+    const contentParts = await encodeContentParts(parts);
+    if (!this.isSocketOpen()) {
+      this.log('warn', 'sendContent() needs an open connection');
+      return;
+    }
+
+    const limit = this.maxContentBytes;
+    if (limit === null) {
+      throw new Error('This proxy cannot relay content messages - update it');
+    }
+    const bytes = contentParts.reduce((total, part) => total + contentPartBytes(part), 0);
+    if (limit > 0 && bytes > limit) {
+      throw new Error(`Content is ${bytes} bytes, over the proxy's limit of ${limit}`);
+    }
+
+    this.log('verbose', 'Sending content', { parts: contentParts.length, bytes });
+    this.send({
+      type: 'content',
+      parts: contentParts,
+      turnComplete: options.turnComplete ?? true,
+    });
+  }
+
+  /** Send a tool result back to Gemini */
+  sendToolResult(toolCallId: string, result: unknown): void {
+    this.recordEvent('tool_result', { id: toolCallId, result });
+    if (this.isSocketOpen()) {
+      this.log('info', 'Sending tool result', { toolCallId, result });
+      this.send({
+        type: 'tool_result',
+        toolCallId,
+        result,
+      });
+    }
+  }
+
+  /**
+   * Push-to-talk: start a user turn (needs the pushToTalk option). Gemini
+   * treats it as a barge-in if the AI is speaking.
+   */
+  startTalking(): void {
+    if (!this.options.pushToTalk) {
+      this.log('warn', 'startTalking() needs the pushToTalk option');
+      return;
+    }
+    if (this.state.isTalking) return;
+    this.log('verbose', 'Push-to-talk: start');
+    this.setState({ isTalking: true });
+    if (this.pushToTalk && this.isSocketOpen()) {
+      this.send({ type: 'activity_start' });
+    }
+  }
+
+  /** Push-to-talk: end the user turn so the AI responds */
+  stopTalking(): void {
+    if (!this.state.isTalking) return;
+    this.log('verbose', 'Push-to-talk: stop');
+    this.setState({ isTalking: false });
+    if (this.pushToTalk && this.isSocketOpen()) {
+      this.send({ type: 'activity_end' });
+    }
+  }
+
+  /** Set microphone muted state */
+  setMuted(muted: boolean): void {
+    this.setState({ isMuted: muted });
+  }
+
+  /** Set speaker muted state (mutes AI audio output) */
+  setSpeakerMuted(muted: boolean): void {
+    this.setState({ isSpeakerMuted: muted });
+    if (muted) {
+      this.flushPlayback(); // Clear any pending audio
+    }
+  }
+
+  /** Get connection quality metrics */
+  getMetrics(): ConnectionMetrics {
+    return {
+      ...this.metrics,
+      inputTokens: { ...this.metrics.inputTokens },
+      outputTokens: { ...this.metrics.outputTokens },
+    };
+  }
+}
@@ -0,0 +1,631 @@
+/**
+ * AudioWorklet processor sources.
+ *
+ * Worklets are loaded from Blob URLs so the package works without any bundler
+ * configuration for separate worklet files.
+ */
+
+/**
+ * Streaming resampler shared by both worklets.
+ *
+ * - 'high': polyphase windowed-sinc (Blackman window, 256 phases). The cutoff
+ *   follows the lower of the two Nyquist rates and the kernel widens with it
+ *   (32 taps at the lower rate), so downsampling (e.g. 48kHz mic -> 16kHz) is
+ *   properly anti-aliased.
+ * - 'low': linear interpolation - cheaper, but aliases audibly.
+ *
+ * Input is delayed by `halfTaps` samples; call flush() at the end of a stream
+ * to push the tail out.
+ */
+const RESAMPLER_SOURCE = `
+class Resampler {
+  constructor(inRate, outRate, quality) {
+    this.step = inRate / outRate;
+    this.passthrough = inRate === outRate;
+    // Normalized cutoff (1 = input Nyquist), with a little roll-off headroom
+    const cutoff = Math.min(1, outRate / inRate) * 0.95;
+    this.halfTaps = quality === 'low' ? 1 : Math.ceil(16 / cutoff);
+    this.table = null;
+
+    if (quality !== 'low') {
+      const h = this.halfTaps;
+      const taps = 2 * h;
+      const phases = 256;
+      const table = new Float32Array((phases + 1) * taps);
+      for (let p = 0; p <= phases; p++) {
+        const frac = p / phases;
+        let sum = 0;
+        for (let k = 0; k < taps; k++) {
+          const x = k - h + 1 - frac;
+          const arg = Math.PI * cutoff * x;
+          const sinc = x === 0 ? 1 : Math.sin(arg) / arg;
+          const w = 0.42 + 0.5 * Math.cos((Math.PI * x) / h) + 0.08 * Math.cos((2 * Math.PI * x) / h);
+          const value = Math.abs(x) >= h ? 0 : sinc * w;
+          table[p * taps + k] = value;
+          sum += value;
+        }
+        // Unity DC gain for every phase
+        for (let k = 0; k < taps; k++) table[p * taps + k] /= sum;
+      }
+      this.taps = taps;
+      this.phases = phases;
+      this.table = table;
+    }
+
+    this.history = new Float32Array(this.halfTaps);
+    this.pos = this.halfTaps;
+  }
+
+  process(input) {
+    if (this.passthrough) return input;
+    const h = this.halfTaps;
+    const buf = new Float32Array(this.history.length + input.length);
+    buf.set(this.history);
+    buf.set(input, this.history.length);
+
+    const out = new Float32Array(Math.ceil((buf.length - this.pos) / this.step) + 1);
+    let n = 0;
+    let t = this.pos;
+    while (Math.floor(t) + h < buf.length) {
+      const i = Math.floor(t);
+      const frac = t - i;
+      let acc = 0;
+      if (this.table) {
+        const row = Math.round(frac * this.phases) * this.taps;
+        const base = i - h + 1;
+        for (let k = 0; k < this.taps; k++) {
+          acc += buf[base + k] * this.table[row + k];
+        }
+      } else {
+        acc = buf[i] * (1 - frac) + buf[i + 1] * frac;
+      }
+      out[n++] = acc;
+      t += this.step;
+    }
+
+    // Keep the samples the next outputs still need
+    const keepFrom = Math.max(0, Math.floor(t) - h + 1);
+    this.history = buf.slice(keepFrom);
+    this.pos = t - keepFrom;
+    return out.subarray(0, n);
+  }
+
+  flush() {
+    return this.process(new Float32Array(this.halfTaps));
+  }
+}
+`;
+
+/**
+ * Base64 codec for the worklets - AudioWorkletGlobalScope has no btoa/atob.
+ */
+const BASE64_SOURCE = `
+const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const BASE64_CODES = new Uint8Array(128);
+for (let i = 0; i < BASE64_CHARS.length; i++) BASE64_CODES[BASE64_CHARS.charCodeAt(i)] = i;
+
+function encodeBase64(bytes) {
+  let out = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const n = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    out += BASE64_CHARS[n >> 18] + BASE64_CHARS[(n >> 12) & 63];
+    out += i + 1 < bytes.length ? BASE64_CHARS[(n >> 6) & 63] : '=';
+    out += i + 2 < bytes.length ? BASE64_CHARS[n & 63] : '=';
+  }
+  return out;
+}
+
+function decodeBase64(text) {
+  let length = text.length;
+  while (length > 0 && text[length - 1] === '=') length--;
+  const bytes = new Uint8Array(Math.floor((length * 3) / 4));
+  let j = 0;
+  for (let i = 0; i < length; i += 4) {
+    const n =
+      (BASE64_CODES[text.charCodeAt(i)] << 18) |
+      (BASE64_CODES[text.charCodeAt(i + 1)] << 12) |
+      ((BASE64_CODES[text.charCodeAt(i + 2)] ?? 0) << 6) |
+      (BASE64_CODES[text.charCodeAt(i + 3)] ?? 0);
+    bytes[j++] = n >> 16;
+    if (j < bytes.length) bytes[j++] = n >> 8;
+    if (j < bytes.length) bytes[j++] = n;
+  }
+  return bytes;
+}
+`;
+
+/** Number of frequency bands in AudioLevel.frequencies */
+export const SPECTRUM_BANDS = 32;
+
+/**
+ * Level meter shared by both worklets. Measures RMS and peak over ~1/60s
+ * windows and, on request, a spectrum of SPECTRUM_BANDS log-spaced bands
+ * (80Hz-12kHz) from a Hann-windowed FFT of the latest samples, mapped from
+ * -90..-20 dBFS to 0..1. Off until the main thread enables it.
+ */
+const LEVEL_METER_SOURCE = `
+const SPECTRUM_SIZE = 1024;
+const SPECTRUM_BANDS = ${SPECTRUM_BANDS};
+const SPECTRUM_MIN_HZ = 80;
+const SPECTRUM_MAX_HZ = 12000;
+const SPECTRUM_MIN_DB = -90;
+const SPECTRUM_MAX_DB = -20;
+
+class LevelMeter {
+  constructor(config) {
+    this.window = Math.floor(sampleRate / 60);
+    this.sumSquares = 0;
+    this.peak = 0;
+    this.count = 0;
+    this.history = new Float32Array(SPECTRUM_SIZE);
+    this.historyIndex = 0;
+    this.fft = null;
+    this.configure(config || {});
+  }
+
+  configure(config) {
+    this.enabled = !!config.enabled;
+    this.frequencies = !!config.frequencies;
+    if (this.frequencies && !this.fft) this.fft = this.createFft();
+  }
+
+  // Returns a level message once a window is complete
+  measure(samples) {
+    if (!this.enabled) return null;
+    for (let i = 0; i < samples.length; i++) {
+      const s = samples[i];
+      this.sumSquares += s * s;
+      const abs = s < 0 ? -s : s;
+      if (abs > this.peak) this.peak = abs;
+      this.history[this.historyIndex] = s;
+      this.historyIndex = (this.historyIndex + 1) % SPECTRUM_SIZE;
+    }
+    this.count += samples.length;
+    if (this.count < this.window) return null;
+
+    const level = {
+      type: 'level',
+      rms: Math.min(1, Math.sqrt(this.sumSquares / this.count)),
+      peak: Math.min(1, this.peak),
+      frequencies: this.frequencies ? this.spectrum() : null,
+    };
+    this.sumSquares = 0;
+    this.peak = 0;
+    this.count = 0;
+    return level;
+  }
+
+  createFft() {
+    const hann = new Float32Array(SPECTRUM_SIZE);
+    for (let i = 0; i < SPECTRUM_SIZE; i++) {
+      hann[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (SPECTRUM_SIZE - 1));
+    }
+    const bits = Math.log2(SPECTRUM_SIZE);
+    const reversed = new Uint16Array(SPECTRUM_SIZE);
+    for (let i = 0; i < SPECTRUM_SIZE; i++) {
+      let r = 0;
+      for (let b = 0; b < bits; b++) r |= ((i >> b) & 1) << (bits - 1 - b);
+      reversed[i] = r;
+    }
+    const cos = new Float32Array(SPECTRUM_SIZE / 2);
+    const sin = new Float32Array(SPECTRUM_SIZE / 2);
+    for (let k = 0; k < SPECTRUM_SIZE / 2; k++) {
+      cos[k] = Math.cos((-2 * Math.PI * k) / SPECTRUM_SIZE);
+      sin[k] = Math.sin((-2 * Math.PI * k) / SPECTRUM_SIZE);
+    }
+    // FFT bin range of each band
+    const binHz = sampleRate / SPECTRUM_SIZE;
+    const maxHz = Math.min(SPECTRUM_MAX_HZ, sampleRate / 2);
+    const edges = new Uint16Array(SPECTRUM_BANDS + 1);
+    for (let b = 0; b <= SPECTRUM_BANDS; b++) {
+      const hz = SPECTRUM_MIN_HZ * Math.pow(maxHz / SPECTRUM_MIN_HZ, b / SPECTRUM_BANDS);
+      edges[b] = Math.min(SPECTRUM_SIZE / 2 - 1, Math.round(hz / binHz));
+    }
+    return {
+      hann,
+      reversed,
+      cos,
+      sin,
+      edges,
+      re: new Float32Array(SPECTRUM_SIZE),
+      im: new Float32Array(SPECTRUM_SIZE),
+    };
+  }
+
+  spectrum() {
+    const { hann, reversed, cos, sin, edges, re, im } = this.fft;
+    // Oldest sample first, windowed, in bit-reversed order
+    for (let i = 0; i < SPECTRUM_SIZE; i++) {
+      const j = reversed[i];
+      re[j] = this.history[(this.historyIndex + i) % SPECTRUM_SIZE] * hann[i];
+      im[j] = 0;
+    }
+    // Iterative radix-2 FFT
+    for (let size = 2; size <= SPECTRUM_SIZE; size *= 2) {
+      const half = size / 2;
+      const stride = SPECTRUM_SIZE / size;
+      for (let start = 0; start < SPECTRUM_SIZE; start += size) {
+        for (let k = 0; k < half; k++) {
+          const wr = cos[k * stride];
+          const wi = sin[k * stride];
+          const a = start + k;
+          const b = a + half;
+          const tr = re[b] * wr - im[b] * wi;
+          const ti = re[b] * wi + im[b] * wr;
+          re[b] = re[a] - tr;
+          im[b] = im[a] - ti;
+          re[a] += tr;
+          im[a] += ti;
+        }
+      }
+    }
+    // Loudest bin per band; a Hann-windowed sine of amplitude A peaks at A * N / 4
+    const bands = new Array(SPECTRUM_BANDS);
+    for (let b = 0; b < SPECTRUM_BANDS; b++) {
+      let max = 0;
+      for (let k = edges[b]; k <= Math.max(edges[b], edges[b + 1] - 1); k++) {
+        const magnitude = Math.sqrt(re[k] * re[k] + im[k] * im[k]);
+        if (magnitude > max) max = magnitude;
+      }
+      const db = 20 * Math.log10((max * 4) / SPECTRUM_SIZE + 1e-12);
+      bands[b] = Math.max(0, Math.min(1, (db - SPECTRUM_MIN_DB) / (SPECTRUM_MAX_DB - SPECTRUM_MIN_DB)));
+    }
+    return bands;
+  }
+}
+`;
+
+/** Level meter settings, posted to either worklet as { type: 'meter', ... } */
+export interface MeterConfig {
+  enabled: boolean;
+  frequencies: boolean;
+}
+
+/** Level measurement posted by either worklet while its meter is enabled */
+export interface LevelMessage {
+  type: 'level';
+  rms: number;
+  peak: number;
+  frequencies: number[] | null;
+}
+
+/** Encoded mic audio posted by the capture worklet */
+export type CaptureChunk =
+  /** Binary audio frame, ready to send (binaryAudio) */
+  | { frame: ArrayBuffer }
+  /** Base64 PCM16 for an audio message */
+  | { base64: string };
+
+/** AI audio for the playback worklet, which decodes it */
+export type PlaybackChunk =
+  /** PCM16 little-endian, starting at offset (e.g. behind a frame header) */
+  | { type: 'push'; pcm: ArrayBuffer; offset: number; sampleRate: number }
+  | { type: 'push'; base64: string; sampleRate: number };
+
+/**
+ * Mic capture processor ('audio-processor').
+ * Runs at the hardware sample rate, resamples to true 16kHz, converts
+ * Float32 to Int16 PCM with proper clamping and encodes it for the wire, so
+ * the main thread only forwards the result to the socket. Samples are posted
+ * in chunks of chunkMs (default 20ms, 320 samples at 16kHz) rather than per
+ * 128-frame render quantum, which would be ~375 messages a second at 48kHz.
+ *
+ * Messages in:  { type: 'format', format: 'frame' | 'base64' } | { type: 'meter', ...MeterConfig }
+ * Messages out: CaptureChunk | LevelMessage (mic level at the hardware rate)
+ */
+export const CAPTURE_WORKLET_SOURCE = `
+${RESAMPLER_SOURCE}
+${BASE64_SOURCE}
+${LEVEL_METER_SOURCE}
+
+class AudioProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const opts = (options && options.processorOptions) || {};
+    this.targetRate = opts.targetSampleRate ?? 16000;
+    this.resampler = new Resampler(sampleRate, this.targetRate, opts.quality ?? 'high');
+    this.format = opts.format ?? 'base64';
+    this.chunk = new Int16Array(Math.max(1, Math.round((this.targetRate * (opts.chunkMs ?? 20)) / 1000)));
+    this.filled = 0;
+    this.meter = new LevelMeter(opts.meter);
+    this.port.onmessage = (event) => {
+      if (event.data.type === 'format') this.format = event.data.format;
+      if (event.data.type === 'meter') this.meter.configure(event.data);
+    };
+  }
+
+  process(inputs, outputs, parameters) {
+    const input = inputs[0];
+    if (input && input[0]) {
+      const level = this.meter.measure(input[0]);
+      if (level) this.port.postMessage(level);
+
+      // Resample from the hardware rate to 16kHz
+      const float32 = this.resampler.process(input[0]);
+      if (float32.length === 0) return true;
+
+      // Convert Float32 to Int16 PCM with proper clamping, posting each
+      // chunk as it fills up
+      for (let i = 0; i < float32.length; i++) {
+        const s = Math.max(-1, Math.min(1, float32[i]));
+        // Proper asymmetric conversion for signed 16-bit
+        this.chunk[this.filled++] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+        if (this.filled === this.chunk.length) {
+          this.postChunk();
+          this.filled = 0;
+        }
+      }
+    }
+    return true;
+  }
+
+  postChunk() {
+    const bytes = new Uint8Array(this.chunk.buffer);
+    if (this.format === 'frame') {
+      // Binary audio frame (encodeAudioFrame in proxy-core/protocol.ts):
+      // type 1, sample rate as uint32 LE at byte 4, PCM16 from byte 8
+      const frame = new ArrayBuffer(8 + bytes.byteLength);
+      const header = new DataView(frame, 0, 8);
+      header.setUint8(0, 1);
+      header.setUint32(4, this.targetRate, true);
+      new Uint8Array(frame, 8).set(bytes);
+      this.port.postMessage({ frame }, [frame]);
+    } else {
+      this.port.postMessage({ base64: encodeBase64(bytes) });
+    }
+  }
+}
+registerProcessor('audio-processor', AudioProcessor);
+`;
+
+/**
+ * Streaming playback processor ('playback-processor').
+ *
+ * Decodes AI audio (base64 or raw PCM16) to Float32, resamples it (24kHz) to
+ * the context sample rate, holds it in a
+ * growable ring buffer and plays it out continuously, so chunks arriving
+ * mid-playback never cause gaps or clicks.
+ *
+ * Jitter buffer: playback (re)starts once the buffer reaches a target latency.
+ * The target starts at minBufferMs and adapts to network jitter, estimated
+ * RFC 3550-style from how late each chunk arrives relative to the previous
+ * chunk's duration. Every underrun adds headroom, which decays again while
+ * playback stays stable. The target never exceeds maxBufferMs.
+ *
+ * Messages in:  PlaybackChunk | { type: 'turn_complete' } | { type: 'flush' }
+ *               | { type: 'meter', ...MeterConfig }
+ * Messages out: { type: 'started' } | { type: 'ended' } | { type: 'stats', ... }
+ *               | LevelMessage (what is actually played)
+ */
+export const PLAYBACK_WORKLET_SOURCE = `
+${RESAMPLER_SOURCE}
+${BASE64_SOURCE}
+${LEVEL_METER_SOURCE}
+
+class PlaybackProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const opts = (options && options.processorOptions) || {};
+    this.minTarget = Math.floor(((opts.minBufferMs ?? 200) / 1000) * sampleRate);
+    this.maxTarget = Math.max(this.minTarget, Math.floor(((opts.maxBufferMs ?? 1000) / 1000) * sampleRate));
+    this.underrunStep = Math.floor(0.05 * sampleRate);
+    this.decayStep = Math.floor(0.01 * sampleRate);
+    this.statsInterval = Math.floor(0.05 * sampleRate);
+    this.quality = opts.quality ?? 'high';
+    this.resampler = null;
+    this.sourceRate = 0;
+
+    // Ring buffer (grows if the AI sends audio much faster than real time)
+    this.ring = new Float32Array(sampleRate * 10);
+    this.readIndex = 0;
+    this.writeIndex = 0;
+    this.available = 0;
+
+    // 'idle' -> 'buffering' -> 'playing' (-> 'buffering' on underrun)
+    this.state = 'idle';
+    this.started = false;
+    this.turnComplete = false;
+    this.turnPlayed = 0;
+
+    this.underruns = 0;
+    this.boost = 0;
+    this.stableFrames = 0;
+    this.jitter = 0;
+    this.lastArrival = -1;
+    this.lastDuration = 0;
+    this.framesSinceStats = 0;
+    this.meter = new LevelMeter(opts.meter);
+
+    this.port.onmessage = (event) => {
+      const msg = event.data;
+      if (msg.type === 'push') {
+        this.push(this.resample(this.decode(msg), msg.sampleRate ?? sampleRate));
+      } else if (msg.type === 'turn_complete') {
+        // Push the resampler's delayed tail before marking the turn done
+        if (this.resampler) {
+          this.push(this.resampler.flush());
+          this.resampler = null;
+        }
+        this.turnComplete = true;
+      } else if (msg.type === 'flush') {
+        this.readIndex = 0;
+        this.writeIndex = 0;
+        this.available = 0;
+        this.resampler = null;
+        this.reset();
+      } else if (msg.type === 'meter') {
+        this.meter.configure(msg);
+      }
+    };
+  }
+
+  // PCM16 little-endian to Float32
+  decode(msg) {
+    const bytes =
+      msg.base64 !== undefined ? decodeBase64(msg.base64) : new Uint8Array(msg.pcm, msg.offset ?? 0);
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength - (bytes.byteLength % 2));
+    const samples = new Float32Array(view.byteLength / 2);
+    for (let i = 0; i < samples.length; i++) {
+      samples[i] = view.getInt16(i * 2, true) / 32768;
+    }
+    return samples;
+  }
+
+  resample(samples, rate) {
+    if (!this.resampler || rate !== this.sourceRate) {
+      this.resampler = new Resampler(rate, sampleRate, this.quality);
+      this.sourceRate = rate;
+    }
+    return this.resampler.process(samples);
+  }
+
+  target() {
+    const jitterTarget = Math.floor(this.jitter * 4 * sampleRate);
+    return Math.min(this.maxTarget, Math.max(this.minTarget, jitterTarget) + this.boost);
+  }
+
+  reset() {
+    this.state = 'idle';
+    this.started = false;
+    this.turnComplete = false;
+    this.lastArrival = -1;
+  }
+
+  push(samples) {
+    if (samples.length === 0) return;
+    if (this.state === 'idle') {
+      // First chunk of a new AI turn
+      this.state = 'buffering';
+      this.turnPlayed = 0;
+      this.lastArrival = -1;
+    }
+    // Audio after turn_complete belongs to the next turn
+    this.turnComplete = false;
+
+    // Jitter estimate: how late did this chunk arrive vs. the previous chunk's duration
+    if (this.lastArrival >= 0) {
+      const lateness = currentTime - this.lastArrival - this.lastDuration;
+      this.jitter += (Math.max(0, lateness) - this.jitter) / 16;
+    }
+    this.lastArrival = currentTime;
+    this.lastDuration = samples.length / sampleRate;
+
+    if (this.available + samples.length > this.ring.length) {
+      this.grow(this.available + samples.length);
+    }
+    const capacity = this.ring.length;
+    const first = Math.min(samples.length, capacity - this.writeIndex);
+    this.ring.set(samples.subarray(0, first), this.writeIndex);
+    if (first < samples.length) {
+      this.ring.set(samples.subarray(first), 0);
+    }
+    this.writeIndex = (this.writeIndex + samples.length) % capacity;
+    this.available += samples.length;
+  }
+
+  grow(minCapacity) {
+    let capacity = this.ring.length * 2;
+    while (capacity < minCapacity) capacity *= 2;
+    const next = new Float32Array(capacity);
+    for (let i = 0; i < this.available; i++) {
+      next[i] = this.ring[(this.readIndex + i) % this.ring.length];
+    }
+    this.ring = next;
+    this.readIndex = 0;
+    this.writeIndex = this.available;
+  }
+
+  postStats() {
+    this.framesSinceStats = 0;
+    this.port.postMessage({
+      type: 'stats',
+      turnPlayedSamples: this.turnPlayed,
+      bufferedMs: (this.available / sampleRate) * 1000,
+      targetLatencyMs: (this.target() / sampleRate) * 1000,
+      jitterMs: this.jitter * 1000,
+      underruns: this.underruns,
+    });
+  }
+
+  process(inputs, outputs) {
+    const output = outputs[0];
+    const out = output[0];
+    const frames = out.length;
+
+    if (this.state === 'buffering') {
+      if (this.available >= this.target() || (this.turnComplete && this.available > 0)) {
+        this.state = 'playing';
+        if (!this.started) {
+          this.started = true;
+          this.port.postMessage({ type: 'started' });
+        }
+      } else if (this.turnComplete && this.available === 0) {
+        if (this.started) this.port.postMessage({ type: 'ended' });
+        this.reset();
+      }
+    }
+
+    if (this.state === 'playing') {
+      const n = Math.min(frames, this.available);
+      const capacity = this.ring.length;
+      const first = Math.min(n, capacity - this.readIndex);
+      out.set(this.ring.subarray(this.readIndex, this.readIndex + first));
+      if (first < n) {
+        out.set(this.ring.subarray(0, n - first), first);
+      }
+      out.fill(0, n);
+      this.readIndex = (this.readIndex + n) % capacity;
+      this.available -= n;
+      this.turnPlayed += n;
+
+      if (this.available === 0) {
+        if (this.turnComplete) {
+          // Natural end of the AI's turn
+          this.port.postMessage({ type: 'ended' });
+          this.reset();
+        } else {
+          // Ran dry mid-turn: rebuffer with more headroom
+          this.underruns++;
+          this.boost = Math.min(this.maxTarget, this.boost + this.underrunStep);
+          this.stableFrames = 0;
+          this.state = 'buffering';
+          this.postStats();
+        }
+      } else {
+        // Slowly give back headroom while playback is stable
+        this.stableFrames += frames;
+        if (this.stableFrames >= sampleRate) {
+          this.stableFrames = 0;
+          this.boost = Math.max(0, this.boost - this.decayStep);
+        }
+      }
+    } else {
+      out.fill(0);
+    }
+
+    for (let ch = 1; ch < output.length; ch++) {
+      output[ch].set(out);
+    }
+
+    const level = this.meter.measure(out);
+    if (level) this.port.postMessage(level);
+
+    this.framesSinceStats += frames;
+    if (this.framesSinceStats >= this.statsInterval) {
+      this.postStats();
+    }
+    return true;
+  }
+}
+registerProcessor('playback-processor', PlaybackProcessor);
+`;
+
+/** Load a worklet processor source into an AudioContext */
+export async function loadWorklet(ctx: BaseAudioContext, source: string): Promise<void> {
+  const url = URL.createObjectURL(new Blob([source], { type: 'application/javascript' }));
+  try {
+    await ctx.audioWorklet.addModule(url);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
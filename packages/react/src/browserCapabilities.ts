@@ -25,6 +25,12 @@ export function canScreenRecord(): boolean {
   return typeof navigator.mediaDevices?.getDisplayMedia === 'function';
 }
 
+/** Check if audio output can be routed to a chosen speaker (AudioContext.setSinkId) */
+export function canSelectAudioOutput(): boolean {
+  if (typeof AudioContext === 'undefined') return false;
+  return 'setSinkId' in AudioContext.prototype;
+}
+
 /**
  * Check if camera mode should be used instead of screen recording.
  * Returns true on mobile devices without screen capture support.
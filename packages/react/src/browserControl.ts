@@ -0,0 +1,306 @@
+/**
+ * DOM helpers backing browser control, workflows and smart element detection.
+ *
+ * These are plain functions so they can be shared by GeminiLiveClient and
+ * useGeminiLive without depending on React.
+ */
+
+import type {
+  BrowserControlCommand,
+  BrowserControlConfig,
+  BrowserControlResult,
+  DetectedElement,
+} from './types';
+
+type HighlightStyle = BrowserControlConfig['highlightStyle'];
+
+/** Highlight an element in the DOM with a visual indicator */
+export function highlightElement(
+  selector: string,
+  message?: string,
+  duration = 3000,
+  style?: HighlightStyle
+): void {
+  const el = document.querySelector(selector);
+  if (!el) return;
+
+  const rect = el.getBoundingClientRect();
+  const overlay = document.createElement('div');
+  overlay.className = 'gemini-live-highlight';
+  const highlightColor = style?.color || '#3b82f6';
+  const borderWidth = style?.borderWidth || 3;
+  overlay.style.cssText = `
+    position: fixed;
+    top: ${rect.top - 4}px;
+    left: ${rect.left - 4}px;
+    width: ${rect.width + 8}px;
+    height: ${rect.height + 8}px;
+    border: ${borderWidth}px solid ${highlightColor};
+    border-radius: 4px;
+    pointer-events: none;
+    z-index: 999999;
+    box-shadow: 0 0 10px ${highlightColor}40;
+    transition: opacity 0.3s ease;
+  `;
+
+  if (message) {
+    const label = document.createElement('div');
+    label.textContent = message;
+    label.style.cssText = `
+      position: absolute;
+      top: -28px;
+      left: 0;
+      background: ${highlightColor};
+      color: white;
+      padding: 4px 8px;
+      font-size: 12px;
+      border-radius: 4px;
+      white-space: nowrap;
+    `;
+    overlay.appendChild(label);
+  }
+
+  document.body.appendChild(overlay);
+
+  const actualDuration = style?.duration ?? duration;
+  setTimeout(() => {
+    overlay.style.opacity = '0';
+    setTimeout(() => overlay.remove(), 300);
+  }, actualDuration);
+}
+
+/** Click an element in the DOM */
+export async function clickElement(selector: string): Promise<BrowserControlResult> {
+  try {
+    const el = document.querySelector(selector);
+    if (!el) {
+      return { success: false, error: `Element not found: ${selector}` };
+    }
+    (el as HTMLElement).click();
+    return { success: true, message: `Clicked ${selector}` };
+  } catch (err) {
+    return { success: false, error: String(err) };
+  }
+}
+
+/** Type text into an input element */
+export async function typeIntoElement(
+  selector: string,
+  text: string,
+  clear = true
+): Promise<BrowserControlResult> {
+  try {
+    const el = document.querySelector(selector) as HTMLInputElement | HTMLTextAreaElement;
+    if (!el) {
+      return { success: false, error: `Element not found: ${selector}` };
+    }
+    if (clear) {
+      el.value = '';
+    }
+    el.value += text;
+    el.dispatchEvent(new Event('input', { bubbles: true }));
+    el.dispatchEvent(new Event('change', { bubbles: true }));
+    return { success: true, message: `Typed into ${selector}` };
+  } catch (err) {
+    return { success: false, error: String(err) };
+  }
+}
+
+/** Scroll to an element or in a direction */
+export function scrollTo(
+  target: string | { direction: 'up' | 'down' | 'left' | 'right'; amount?: number }
+): void {
+  if (typeof target === 'string') {
+    document.querySelector(target)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  } else {
+    const amount = target.amount || 300;
+    const dir = target.direction;
+    window.scrollBy({
+      top: dir === 'down' ? amount : dir === 'up' ? -amount : 0,
+      left: dir === 'right' ? amount : dir === 'left' ? -amount : 0,
+      behavior: 'smooth',
+    });
+  }
+}
+
+/** Serialize DOM structure for AI to understand page layout */
+export function serializeDOM(root: Element | null, maxDepth: number, currentDepth = 0): unknown {
+  if (!root || currentDepth >= maxDepth) return null;
+
+  const result: Record<string, unknown> = {
+    tag: root.tagName.toLowerCase(),
+    id: root.id || undefined,
+    className: root.className || undefined,
+  };
+
+  // Include key attributes for interactive elements
+  if (root instanceof HTMLInputElement) {
+    result.type = root.type;
+    result.value = root.value;
+    result.placeholder = root.placeholder || undefined;
+  } else if (root instanceof HTMLAnchorElement) {
+    result.href = root.href;
+    result.text = root.textContent?.trim().slice(0, 50);
+  } else if (root instanceof HTMLButtonElement) {
+    result.text = root.textContent?.trim().slice(0, 50);
+  }
+
+  // Add selector for AI to use
+  if (root.id) {
+    result.selector = `#${root.id}`;
+  } else if (root.className) {
+    const firstClass = root.className.split(' ')[0];
+    result.selector = `${root.tagName.toLowerCase()}.${firstClass}`;
+  }
+
+  const children = Array.from(root.children)
+    .map((child) => serializeDOM(child, maxDepth, currentDepth + 1))
+    .filter(Boolean);
+
+  if (children.length > 0) {
+    result.children = children;
+  }
+
+  return result;
+}
+
+/** Execute a browser control command against the DOM */
+export async function executeBrowserControl(
+  cmd: BrowserControlCommand,
+  options: { consoleErrors: string[]; highlightStyle?: HighlightStyle }
+): Promise<BrowserControlResult> {
+  try {
+    switch (cmd.action) {
+      case 'click': {
+        return await clickElement(cmd.args.selector || '');
+      }
+
+      case 'type': {
+        const el = document.querySelector(cmd.args.selector || '') as HTMLInputElement;
+        if (!el) return { success: false, error: 'Element not found' };
+        if (cmd.args.clear !== false) el.value = '';
+        el.value += cmd.args.text || '';
+        el.dispatchEvent(new Event('input', { bubbles: true }));
+        el.dispatchEvent(new Event('change', { bubbles: true }));
+        return { success: true, message: `Typed into ${cmd.args.selector}` };
+      }
+
+      case 'scroll': {
+        if (cmd.args.selector) {
+          scrollTo(cmd.args.selector);
+        } else {
+          scrollTo({ direction: cmd.args.direction || 'down', amount: cmd.args.amount });
+        }
+        return { success: true };
+      }
+
+      case 'highlight': {
+        highlightElement(
+          cmd.args.selector || '',
+          cmd.args.message,
+          cmd.args.duration,
+          options.highlightStyle
+        );
+        return { success: true };
+      }
+
+      case 'get_dom': {
+        const root = document.querySelector(cmd.args.selector || 'body');
+        const dom = serializeDOM(root, cmd.args.maxDepth || 5);
+        return { success: true, data: dom };
+      }
+
+      case 'get_errors': {
+        const limit = cmd.args.limit || 20;
+        return { success: true, data: options.consoleErrors.slice(-limit) };
+      }
+
+      default:
+        return { success: false, error: `Unknown action: ${cmd.action}` };
+    }
+  } catch (err) {
+    return { success: false, error: String(err) };
+  }
+}
+
+/** Collect all visible interactive elements from the DOM */
+export function findInteractiveElements(): DetectedElement[] {
+  const interactiveSelectors = [
+    'button',
+    'a[href]',
+    'input',
+    'textarea',
+    'select',
+    '[role="button"]',
+    '[onclick]',
+    '[tabindex]:not([tabindex="-1"])',
+  ];
+
+  const elements: DetectedElement[] = [];
+  const seenBounds = new Set<string>();
+
+  for (const selector of interactiveSelectors) {
+    const domElements = document.querySelectorAll(selector);
+    domElements.forEach((el, index) => {
+      const rect = (el as HTMLElement).getBoundingClientRect();
+
+      // Skip hidden or off-screen elements
+      if (rect.width === 0 || rect.height === 0) return;
+      if (rect.bottom < 0 || rect.top > window.innerHeight) return;
+      if (rect.right < 0 || rect.left > window.innerWidth) return;
+
+      // Skip duplicates based on bounds
+      const boundsKey = `${Math.round(rect.x)},${Math.round(rect.y)},${Math.round(rect.width)},${Math.round(rect.height)}`;
+      if (seenBounds.has(boundsKey)) return;
+      seenBounds.add(boundsKey);
+
+      // Determine element type
+      let type: DetectedElement['type'] = 'unknown';
+      const tagName = el.tagName.toLowerCase();
+      if (tagName === 'button' || el.getAttribute('role') === 'button') {
+        type = 'button';
+      } else if (tagName === 'a') {
+        type = 'link';
+      } else if (tagName === 'input' || tagName === 'textarea' || tagName === 'select') {
+        type = 'input';
+      } else if (tagName === 'img') {
+        type = 'image';
+      }
+
+      // Generate selector
+      let selectorStr = '';
+      if (el.id) {
+        selectorStr = `#${el.id}`;
+      } else if (el.className && typeof el.className === 'string') {
+        const classes = el.className.trim().split(/\s+/).slice(0, 2).join('.');
+        selectorStr = classes ? `${tagName}.${classes}` : tagName;
+      } else {
+        selectorStr = `${tagName}:nth-of-type(${index + 1})`;
+      }
+
+      // Get text content
+      const text = (el as HTMLElement).innerText?.trim().slice(0, 100) ||
+                   el.getAttribute('aria-label') ||
+                   el.getAttribute('title') ||
+                   (el as HTMLInputElement).placeholder ||
+                   '';
+
+      elements.push({
+        id: `det_${Date.now()}_${elements.length}`,
+        bounds: {
+          x: rect.x,
+          y: rect.y,
+          width: rect.width,
+          height: rect.height,
+        },
+        type,
+        text: text || undefined,
+        selector: selectorStr,
+        confidence: 1.0, // DOM-based detection is deterministic
+        description: `${type}: ${text || selectorStr}`,
+      });
+    });
+  }
+
+  return elements;
+}
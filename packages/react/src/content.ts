@@ -0,0 +1,65 @@
+/**
+ * Turns sendContent() inputs - text, Blobs/Files, canvases and inline data -
+ * into the content parts the proxy passes through to Gemini.
+ */
+
+import type { ContentInput, ContentPart } from './types';
+
+// Canvases go out as JPEG like screen share frames, at a higher quality since
+// they're single images the user chose to share
+const CANVAS_MIME_TYPE = 'image/jpeg';
+const CANVAS_QUALITY = 0.9;
+
+/** Decoded size of a part's inline data (0 for text) */
+export function contentPartBytes(part: ContentPart): number {
+  if (!('inlineData' in part)) return 0;
+  const { data } = part.inlineData;
+  const padding = data.endsWith('==') ? 2 : data.endsWith('=') ? 1 : 0;
+  return Math.floor((data.length * 3) / 4) - padding;
+}
+
+/** Encode every input, rejecting if any of them can't be */
+export function encodeContentParts(inputs: ContentInput[]): Promise<ContentPart[]> {
+  return Promise.all(inputs.map(encodeContentPart));
+}
+
+async function encodeContentPart(input: ContentInput): Promise<ContentPart> {
+  if (typeof input === 'string') {
+    return { text: input };
+  }
+  if (input instanceof HTMLCanvasElement) {
+    const blob = await canvasToBlob(input);
+    return { inlineData: { mimeType: CANVAS_MIME_TYPE, data: await blobToBase64(blob) } };
+  }
+  if (input instanceof Blob) {
+    // Files get their type from the extension; hand-made Blobs may not have one
+    if (!input.type) {
+      throw new Error('Blob has no MIME type - create it with { type } or pass inlineData');
+    }
+    return { inlineData: { mimeType: input.type, data: await blobToBase64(input) } };
+  }
+  return input;
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Could not encode the canvas'))),
+      CANVAS_MIME_TYPE,
+      CANVAS_QUALITY
+    );
+  });
+}
+
+function blobToBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    // Data URL minus its "data:<type>;base64," prefix
+    reader.onload = () => {
+      const dataUrl = reader.result as string;
+      resolve(dataUrl.slice(dataUrl.indexOf(',') + 1));
+    };
+    reader.onerror = () => reject(reader.error ?? new Error('Could not read the file'));
+    reader.readAsDataURL(blob);
+  });
+}
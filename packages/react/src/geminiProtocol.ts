@@ -0,0 +1,207 @@
+/**
+ * Native Gemini Live protocol for direct (ephemeral token) connections.
+ *
+ * In relay mode the proxy translates between the client's message types and
+ * Gemini's BidiGenerateContent messages. In direct mode the browser talks to
+ * Gemini itself, so this adapter does the same translation client-side and
+ * GeminiLiveClient keeps handling ProxyMessages either way.
+ */
+
+import type { BrowserControlAction, ClientMessage, ProxyMessage } from './types';
+import {
+  PROTOCOL_VERSION,
+  parseDurationMs,
+  toFunctionResponse,
+} from '../../proxy-core/protocol';
+
+/** Built-in browser control tools are declared by the proxy as browser_<action> */
+const BROWSER_TOOL_PREFIX = 'browser_';
+
+/** Ephemeral token issued by the proxy for a direct connection */
+export interface EphemeralToken {
+  token: string;
+  /** Gemini WebSocket URL to open with the token */
+  url: string;
+  /** Model locked into the token */
+  model: string;
+  /** ISO timestamp after which the session can't send messages */
+  expiresAt: string;
+}
+
+export class GeminiProtocolAdapter {
+  // Gemini wants the function name back with each response
+  private pendingCalls = new Map<string, string>();
+  private resumed = false;
+  private pushToTalk = false;
+
+  /**
+   * Setup message for a direct connection. Everything else is locked into
+   * the token, so only the model and the session to resume are sent.
+   * @param pushToTalk - Whether the token was requested with pushToTalk
+   */
+  setupMessage(
+    model: string,
+    sessionHandle: string | null,
+    pushToTalk: boolean
+  ): Record<string, unknown> {
+    this.resumed = !!sessionHandle;
+    this.pushToTalk = pushToTalk;
+    return {
+      setup: {
+        model,
+        sessionResumption: sessionHandle ? { handle: sessionHandle } : {},
+      },
+    };
+  }
+
+  /** Translate a client message into a Gemini message (null to drop it) */
+  toGemini(message: ClientMessage): Record<string, unknown> | null {
+    switch (message.type) {
+      case 'audio':
+        return {
+          realtimeInput: {
+            mediaChunks: [
+              { mimeType: message.mimeType || 'audio/pcm;rate=16000', data: message.data },
+            ],
+          },
+        };
+      case 'frame':
+        return {
+          realtimeInput: {
+            mediaChunks: [{ mimeType: 'image/jpeg', data: message.data }],
+          },
+        };
+      case 'text':
+        return {
+          clientContent: {
+            turns: [{ role: 'user', parts: [{ text: message.text }] }],
+            turnComplete: true,
+          },
+        };
+      case 'content':
+        return {
+          clientContent: {
+            turns: [{ role: 'user', parts: message.parts }],
+            turnComplete: message.turnComplete ?? true,
+          },
+        };
+      case 'activity_start':
+        return { realtimeInput: { activityStart: {} } };
+      case 'activity_end':
+        return { realtimeInput: { activityEnd: {} } };
+      case 'tool_result':
+      case 'browser_control_result': {
+        const id = message.toolCallId;
+        const name = id ? this.pendingCalls.get(id) : undefined;
+        if (!id || !name) return null;
+        this.pendingCalls.delete(id);
+        return {
+          toolResponse: {
+            functionResponses: [{ id, name, response: toFunctionResponse(message.result) }],
+          },
+        };
+      }
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Translate a Gemini message into the client's message types
+   * @param browserActions - Browser control actions the client opted into
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  fromGemini(data: any, browserActions: readonly string[]): ProxyMessage[] {
+    const messages: ProxyMessage[] = [];
+
+    if (data.error) {
+      messages.push({ type: 'error', message: data.error.message || 'Gemini API error' });
+      return messages;
+    }
+
+    if (data.usageMetadata) {
+      messages.push({ type: 'usage', usage: data.usageMetadata });
+    }
+
+    if (data.goAway) {
+      messages.push({ type: 'go_away', timeLeftMs: parseDurationMs(data.goAway.timeLeft) });
+    }
+
+    if (data.setupComplete !== undefined) {
+      messages.push({
+        type: 'setup_complete',
+        protocolVersion: PROTOCOL_VERSION,
+        resumed: this.resumed,
+        serverTools: [],
+        pushToTalk: this.pushToTalk,
+        // Gemini enforces its own request size limits
+        maxContentBytes: 0,
+      });
+      return messages;
+    }
+
+    const update = data.sessionResumptionUpdate;
+    if (update) {
+      if (update.newHandle) {
+        messages.push({
+          type: 'session_handle',
+          handle: update.newHandle,
+          resumable: update.resumable,
+        });
+      }
+      return messages;
+    }
+
+    const content = data.serverContent;
+    if (content) {
+      for (const part of content.modelTurn?.parts || []) {
+        if (part.text) {
+          messages.push({ type: 'response', text: part.text });
+        }
+        if (part.inlineData?.mimeType?.startsWith('audio/')) {
+          messages.push({
+            type: 'audio',
+            mimeType: part.inlineData.mimeType,
+            data: part.inlineData.data,
+          });
+        }
+      }
+      if (content.inputTranscription?.text) {
+        messages.push({ type: 'input_transcription', text: content.inputTranscription.text });
+      }
+      if (content.outputTranscription?.text) {
+        messages.push({ type: 'output_transcription', text: content.outputTranscription.text });
+      }
+      if (content.interrupted) {
+        messages.push({ type: 'interrupted' });
+      }
+      if (content.turnComplete) {
+        messages.push({ type: 'turn_complete' });
+      }
+    }
+
+    for (const fc of data.toolCall?.functionCalls || []) {
+      this.pendingCalls.set(fc.id, fc.name);
+      const action = fc.name.startsWith(BROWSER_TOOL_PREFIX)
+        ? fc.name.slice(BROWSER_TOOL_PREFIX.length)
+        : null;
+      if (action && browserActions.includes(action)) {
+        messages.push({
+          type: 'browser_control',
+          toolCallId: fc.id,
+          action: action as BrowserControlAction,
+          args: fc.args || {},
+        });
+      } else {
+        messages.push({
+          type: 'tool_call',
+          toolCallId: fc.id,
+          toolName: fc.name,
+          args: fc.args || {},
+        });
+      }
+    }
+
+    return messages;
+  }
+}
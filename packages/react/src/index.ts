@@ -1,17 +1,37 @@
 export { useGeminiLive } from './useGeminiLive';
+export { GeminiLiveClient } from './GeminiLiveClient';
 export { useScreenRecording } from './useScreenRecording';
+export { useAudioLevels } from './useAudioLevels';
+export { usePushToTalkKey } from './usePushToTalkKey';
 export type {
   // Gemini Live types
   Transcript,
   UseGeminiLiveOptions,
   UseGeminiLiveReturn,
+  GeminiLiveClientOptions,
+  GeminiLiveClientState,
+  GeminiLiveClientEvents,
   ConnectionState,
+  ConnectionMetrics,
+  UsageMetadata,
+  ModalityTokenCount,
   DebugLevel,
   DebugCallback,
   ToolDefinition,
   ToolCall,
   ToolCallHandler,
   ToolCallContext,
+  SessionConfig,
+  ActivityDetectionConfig,
+  ContentInput,
+  ContentPart,
+  SendContentOptions,
+  ServerToolCall,
+  AudioDevice,
+  AudioLevel,
+  AudioLevels,
+  AudioLevelsOptions,
+  AudioLevelsSource,
   // Browser Control types
   BrowserControlAction,
   BrowserControlCommand,
@@ -50,8 +70,13 @@ export {
   shouldUseCameraMode,
   getVideoMimeType,
   getRecommendedAudioConstraints,
+  canSelectAudioOutput,
 } from './browserCapabilities';
 
+// Push-to-talk keyboard shortcuts
+export { bindPushToTalkKey } from './pushToTalk';
+export type { PushToTalkKeyOptions, PushToTalkTarget } from './pushToTalk';
+
 // Captured Surface Control (Chrome 124+ scroll/zoom control for captured screens)
 export {
   useCapturedSurfaceControl,
@@ -0,0 +1,93 @@
+/**
+ * Keyboard shortcuts for push-to-talk: hold a key to talk, release to let
+ * the AI answer. Works with the useGeminiLive return value or a
+ * GeminiLiveClient created with pushToTalk: true.
+ */
+
+import type { UseGeminiLiveReturn } from './types';
+
+/** Anything with push-to-talk controls */
+export type PushToTalkTarget = Pick<UseGeminiLiveReturn, 'startTalking' | 'stopTalking'>;
+
+/**
+ * Options for bindPushToTalkKey() and usePushToTalkKey()
+ */
+export interface PushToTalkKeyOptions {
+  /**
+   * KeyboardEvent.code of the key to hold
+   * @default 'Space'
+   */
+  code?: string;
+  /**
+   * Element to listen on
+   * @default window
+   */
+  target?: Pick<HTMLElement, 'addEventListener' | 'removeEventListener'> | Window;
+  /**
+   * Also trigger while focus is in an input, textarea or contenteditable
+   * (off so typing a space doesn't start talking)
+   * @default false
+   */
+  allowInInputs?: boolean;
+}
+
+function isEditable(element: EventTarget | null): boolean {
+  if (!(element instanceof HTMLElement)) return false;
+  return (
+    element.isContentEditable ||
+    element instanceof HTMLInputElement ||
+    element instanceof HTMLTextAreaElement ||
+    element instanceof HTMLSelectElement
+  );
+}
+
+/**
+ * Hold a key to talk. Releasing the key, or the window losing focus while
+ * it is held, ends the turn.
+ * @returns Function that removes the listeners
+ *
+ * @example
+ * ```ts
+ * const client = new GeminiLiveClient({ proxyUrl, pushToTalk: true });
+ * const unbind = bindPushToTalkKey(client, { code: 'KeyT' });
+ * ```
+ */
+export function bindPushToTalkKey(
+  talker: PushToTalkTarget,
+  options: PushToTalkKeyOptions = {}
+): () => void {
+  const { code = 'Space', target = window, allowInInputs = false } = options;
+  let held = false;
+
+  const release = () => {
+    if (!held) return;
+    held = false;
+    talker.stopTalking();
+  };
+
+  const onKeyDown = (event: Event) => {
+    const key = event as KeyboardEvent;
+    if (key.code !== code) return;
+    if (!allowInInputs && isEditable(key.target)) return;
+    // Keep Space from scrolling the page or pressing the focused button
+    key.preventDefault();
+    if (held || key.repeat) return;
+    held = true;
+    talker.startTalking();
+  };
+
+  const onKeyUp = (event: Event) => {
+    if ((event as KeyboardEvent).code === code) release();
+  };
+
+  target.addEventListener('keydown', onKeyDown);
+  target.addEventListener('keyup', onKeyUp);
+  window.addEventListener('blur', release);
+
+  return () => {
+    target.removeEventListener('keydown', onKeyDown);
+    target.removeEventListener('keyup', onKeyUp);
+    window.removeEventListener('blur', release);
+    release();
+  };
+}
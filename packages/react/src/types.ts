@@ -1,16 +1,23 @@
+import type {
+  ActivityDetectionConfig,
+  BrowserControlAction,
+  ContentPart,
+  UsageMetadata,
+} from '../../proxy-core/protocol';
+
+// Shared with the proxy, which speaks the same wire protocol
+export type {
+  ActivityDetectionConfig,
+  BrowserControlAction,
+  ContentPart,
+  ModalityTokenCount,
+  UsageMetadata,
+} from '../../proxy-core/protocol';
+
 // =============================================================================
 // Browser Control Types
 // =============================================================================
 
-/** Browser control action types */
-export type BrowserControlAction =
-  | 'click'
-  | 'type'
-  | 'scroll'
-  | 'highlight'
-  | 'get_dom'
-  | 'get_errors';
-
 /** Browser control command from AI */
 export interface BrowserControlCommand {
   toolCallId: string;
@@ -48,6 +55,11 @@ export interface UICommand {
 
 /** Browser control configuration */
 export interface BrowserControlConfig {
+  /**
+   * Actions the proxy declares to the AI as built-in tools
+   * (default: all of click, type, scroll, highlight, get_dom, get_errors)
+   */
+  actions?: BrowserControlAction[];
   /** Auto-execute browser commands (default: false) */
   autoExecute?: boolean;
   /** Auto-execute UI commands (default: false) */
@@ -321,6 +333,58 @@ export type DebugLevel = 'info' | 'warn' | 'error' | 'verbose';
  */
 export type DebugCallback = (level: DebugLevel, message: string, data?: unknown) => void;
 
+/**
+ * A microphone or speaker reported by the browser
+ */
+export interface AudioDevice {
+  /** Pass to setInputDevice / setOutputDevice */
+  deviceId: string;
+  /** Human-readable name (empty until microphone access is granted) */
+  label: string;
+  kind: 'audioinput' | 'audiooutput';
+  /** Shared by the input and output of the same physical device */
+  groupId: string;
+}
+
+/**
+ * Loudness of one audio stream, measured in the audio worklets
+ */
+export interface AudioLevel {
+  /** Root mean square amplitude, 0-1 */
+  rms: number;
+  /** Peak absolute amplitude, 0-1 */
+  peak: number;
+  /**
+   * 32 log-spaced frequency bands (80Hz-12kHz), 0-1, for visualizers
+   * null unless a subscriber asked for frequencies
+   */
+  frequencies: number[] | null;
+}
+
+/**
+ * Latest input and output levels, updated about 60 times a second
+ */
+export interface AudioLevels {
+  /** Microphone (silent while muted) */
+  input: AudioLevel;
+  /** AI audio as it is played */
+  output: AudioLevel;
+}
+
+/**
+ * Options for subscribeAudioLevels() and useAudioLevels()
+ */
+export interface AudioLevelsOptions {
+  /** Also compute frequency bands @default false */
+  frequencies?: boolean;
+}
+
+/**
+ * Anything audio levels can be read from: the useGeminiLive return value or
+ * a GeminiLiveClient
+ */
+export type AudioLevelsSource = Pick<UseGeminiLiveReturn, 'subscribeAudioLevels' | 'getAudioLevels'>;
+
 /**
  * A transcript entry representing either user speech or AI response
  */
@@ -335,6 +399,49 @@ export interface Transcript {
   timestamp: Date;
 }
 
+/**
+ * Per-session Gemini configuration, sent to the proxy on connect.
+ * The proxy validates every field against its server-side allowlist and
+ * rejects the session if anything is not allowed.
+ */
+export interface SessionConfig {
+  /** Model name, e.g. 'gemini-2.5-flash-native-audio-preview-12-2025' */
+  model?: string;
+  /** Prebuilt voice name, e.g. 'Kore' */
+  voice?: string;
+  /** System instruction (only if the proxy allows client-provided instructions) */
+  systemInstruction?: string;
+  /** Sampling temperature (0-2) */
+  temperature?: number;
+  /** Response modality - the Live API supports one per session */
+  responseModalities?: ['AUDIO'] | ['TEXT'];
+  /** Resolution used for screen share frames */
+  mediaResolution?: 'MEDIA_RESOLUTION_LOW' | 'MEDIA_RESOLUTION_MEDIUM' | 'MEDIA_RESOLUTION_HIGH';
+  /** BCP-47 language code for speech, e.g. 'en-US' */
+  languageCode?: string;
+  /** Thinking token budget (0 disables thinking) */
+  thinkingBudget?: number;
+}
+
+/**
+ * One part of a sendContent() turn: text, a Blob or File (sent with its own
+ * MIME type, e.g. an image or PDF), a canvas (sent as JPEG) or a ready-made
+ * content part
+ */
+export type ContentInput = string | Blob | HTMLCanvasElement | ContentPart;
+
+/**
+ * Options for sendContent()
+ */
+export interface SendContentOptions {
+  /**
+   * Whether the AI should answer now; false adds the content to the
+   * conversation and waits for more
+   * @default true
+   */
+  turnComplete?: boolean;
+}
+
 /**
  * Definition of a tool that can be called by the AI
  */
@@ -362,6 +469,19 @@ export interface ToolCall {
   args: Record<string, unknown>;
 }
 
+/**
+ * A tool call that was executed by the proxy's server-side tool registry.
+ * The result went straight to Gemini and is not visible to the client.
+ */
+export interface ServerToolCall {
+  /** Unique ID of the tool call */
+  id: string;
+  /** Name of the server-side tool */
+  name: string;
+  /** Whether the tool handler succeeded */
+  success: boolean;
+}
+
 /**
  * Context passed to tool call handlers with current state and functions.
  * This allows handlers to access hook state without creating circular dependencies.
@@ -429,9 +549,10 @@ export type BrowserControlHandler = (
 export type UICommandHandler = (command: UICommand) => void;
 
 /**
- * Configuration options for useGeminiLive hook
+ * Configuration options for GeminiLiveClient
+ * (framework-agnostic session settings shared with useGeminiLive)
  */
-export interface UseGeminiLiveOptions {
+export interface GeminiLiveClientOptions {
   /**
    * WebSocket URL of your Gemini Live proxy server
    * @example 'wss://your-project.supabase.co/functions/v1/gemini-live-proxy'
@@ -445,34 +566,108 @@ export interface UseGeminiLiveOptions {
   sessionId?: string;
 
   /**
-   * Optional message sent to AI immediately after connection to trigger a greeting
-   * @example 'Please greet the user warmly and ask how you can help them today.'
+   * Returns the token the proxy authenticates the connection with
+   * (e.g. the Supabase session's access_token). Called again before every
+   * connect and reconnect, so it can return a refreshed token.
    */
-  welcomeMessage?: string;
+  getAuthToken?: () => string | null | undefined | Promise<string | null | undefined>;
 
   /**
-   * Callback fired when a new transcript entry is finalized
-   * Transcripts are debounced - this fires after 1.5s of silence
+   * How the auth token is sent: as a "bearer.<token>" WebSocket subprotocol,
+   * or as the access_token query parameter (ends up in server logs)
+   * @default 'protocol'
    */
-  onTranscript?: (transcript: Transcript) => void;
+  authTokenTransport?: 'protocol' | 'query';
 
   /**
-   * Callback fired when an error occurs
+   * How to reach Gemini:
+   * - 'relay': every message goes through the proxy WebSocket
+   * - 'direct': the proxy only issues a short-lived ephemeral token (POST to
+   *   proxyUrl) and the browser connects to Gemini itself, saving a hop of
+   *   latency and the proxy's egress. The token locks the model, system
+   *   instruction and tools. Needs PROXY_EPHEMERAL_TOKENS=true on the proxy;
+   *   server-side tools, the proxy's concurrent-session cap and its byte
+   *   and content quotas don't apply.
+   * @default 'relay'
    */
-  onError?: (error: string) => void;
+  connectionMode?: 'relay' | 'direct';
 
   /**
-   * Callback fired when connection state changes
+   * Send and receive audio as binary WebSocket frames (raw PCM behind a small
+   * header) instead of base64 in JSON, cutting audio bandwidth and encoding
+   * work by about a third. Relay mode only; proxies that don't confirm it in
+   * setup_complete keep getting JSON.
+   * @default false
    */
-  onConnectionChange?: (connected: boolean) => void;
+  binaryAudio?: boolean;
+
+  /**
+   * Microphone to capture from (a deviceId from listAudioDevices()). Falls
+   * back to the system default if the device is missing or unplugged.
+   * Changing it switches devices without reconnecting.
+   * @default system default
+   */
+  audioInputDeviceId?: string;
+
+  /**
+   * Speaker to play the AI's audio on (a deviceId from listAudioDevices()).
+   * Needs AudioContext.setSinkId (see canSelectAudioOutput()); other browsers
+   * keep playing on the system default.
+   * @default system default
+   */
+  audioOutputDeviceId?: string;
+
+  /**
+   * Per-session model, voice, system instruction and generation config
+   * Validated by the proxy against its allowlist
+   */
+  sessionConfig?: SessionConfig;
+
+  /**
+   * Whether the AI answers with speech or text. Text replies stream into
+   * streamingText and become transcript entries on turn_complete. Shorthand
+   * for sessionConfig.responseModalities (and takes precedence over it);
+   * native audio models only answer with audio.
+   * @default 'audio'
+   */
+  responseModality?: 'text' | 'audio';
+
+  /**
+   * Capture the microphone once connected. Turn it off for a typed chat over
+   * sendText(); changing it while connected starts or stops capture.
+   * @default true
+   */
+  microphone?: boolean;
+
+  /**
+   * Optional message sent to AI immediately after connection to trigger a greeting
+   * @example 'Please greet the user warmly and ask how you can help them today.'
+   */
+  welcomeMessage?: string;
 
   /**
    * Minimum audio buffer (in milliseconds) before playback starts
-   * Higher values = smoother audio but more latency
+   * Higher values = smoother audio but more latency.
+   * The playback jitter buffer adapts upward from this value as needed.
    * @default 200
    */
   minBufferMs?: number;
 
+  /**
+   * Maximum latency (in milliseconds) the playback jitter buffer may grow to
+   * when adapting to network jitter and underruns
+   * @default 1000
+   */
+  maxBufferMs?: number;
+
+  /**
+   * Resampler used for mic input (hardware rate -> 16kHz) and AI output
+   * (24kHz -> hardware rate). 'high' is a windowed-sinc filter; 'low' is
+   * linear interpolation, cheaper on slow devices but audibly aliased.
+   * @default 'high'
+   */
+  resamplerQuality?: 'high' | 'low';
+
   /**
    * Debounce time (in milliseconds) for grouping transcript chunks
    * @default 1500
@@ -508,20 +703,31 @@ export interface UseGeminiLiveOptions {
   tools?: ToolDefinition[];
 
   /**
-   * Callback fired when the AI requests a tool call
-   * Return the result to send back to the AI
+   * Enable client-side Voice Activity Detection (Silero, in the browser)
+   * Only sends audio when user is speaking, reducing bandwidth. Gemini still
+   * decides when turns end; tune that with activityDetection.
+   * @default false
    */
-  onToolCall?: ToolCallHandler;
+  vad?: boolean;
 
   /**
-   * Enable Voice Activity Detection
-   * Only sends audio when user is speaking, reducing bandwidth
+   * Push-to-talk: the mic only streams between startTalking() and
+   * stopTalking(), and Gemini's automatic activity detection is turned off,
+   * so each turn ends exactly when the user lets go. Takes precedence over vad.
    * @default false
    */
-  vad?: boolean;
+  pushToTalk?: boolean;
 
   /**
-   * VAD configuration options
+   * Gemini's server-side activity detection: how readily it decides the user
+   * started or stopped speaking, and whether speech interrupts the model.
+   * Forwarded by the proxy into realtimeInputConfig. Ignored with pushToTalk.
+   */
+  activityDetection?: ActivityDetectionConfig;
+
+  /**
+   * Client-side VAD options (only used with vad: true; they don't affect
+   * Gemini's turn detection)
    */
   vadOptions?: {
     /** Speech probability threshold (0-1) @default 0.5 */
@@ -538,6 +744,61 @@ export interface UseGeminiLiveOptions {
    */
   browserControl?: BrowserControlConfig;
 
+  /**
+   * Enable session recording
+   */
+  recording?: RecordingConfig;
+
+  /**
+   * Smart element detection configuration
+   */
+  smartDetection?: SmartDetectionConfig;
+}
+
+/**
+ * Configuration options for useGeminiLive hook
+ */
+export interface UseGeminiLiveOptions extends GeminiLiveClientOptions {
+  /**
+   * Callback fired when a new transcript entry is finalized
+   * Transcripts are debounced - this fires after 1.5s of silence
+   */
+  onTranscript?: (transcript: Transcript) => void;
+
+  /**
+   * Callback fired when an error occurs
+   */
+  onError?: (error: string) => void;
+
+  /**
+   * Callback fired when connection state changes
+   */
+  onConnectionChange?: (connected: boolean) => void;
+
+  /**
+   * Callback fired when the user interrupts the AI (barge-in)
+   * Queued audio has already been flushed when this fires
+   */
+  onInterrupted?: () => void;
+
+  /**
+   * Callback fired when the AI requests a tool call
+   * Return the result to send back to the AI
+   */
+  onToolCall?: ToolCallHandler;
+
+  /**
+   * Callback fired when the proxy executed a server-side tool
+   * (informational - no result needs to be sent)
+   */
+  onServerToolCall?: (call: ServerToolCall) => void;
+
+  /**
+   * Callback fired with Gemini's token usage for each response
+   * Cumulative totals are available from getMetrics()
+   */
+  onUsage?: (usage: UsageMetadata) => void;
+
   /**
    * Callback fired when the AI sends a browser control command
    * Return a result to send back, or undefined to let auto-execute handle it
@@ -550,20 +811,16 @@ export interface UseGeminiLiveOptions {
    */
   onUICommand?: UICommandHandler;
 
-  /**
-   * Enable session recording
-   */
-  recording?: RecordingConfig;
-
   /**
    * Callback when recording event occurs
    */
   onRecordingEvent?: (event: SessionEvent) => void;
 
   /**
-   * Smart element detection configuration
+   * Callback fired when a selected microphone or speaker goes away
+   * (e.g. a headset is unplugged) and the client falls back to the default
    */
-  smartDetection?: SmartDetectionConfig;
+  onAudioDeviceLost?: (kind: AudioDevice['kind'], deviceId: string) => void;
 }
 
 /**
@@ -575,6 +832,8 @@ export type ConnectionState =
   | 'connected'
   | 'reconnecting'
   | 'error'
+  /** The proxy closed the session for exceeding a rate limit or quota (no auto-reconnect) */
+  | 'rate_limited'
   | 'disconnected';
 
 /**
@@ -591,6 +850,109 @@ export interface ConnectionMetrics {
   lastConnectedAt: number | null;
   /** Total time spent connected in milliseconds */
   totalConnectedTime: number;
+  /** Number of times playback ran dry mid-response and had to rebuffer */
+  playbackUnderruns: number;
+  /** Audio currently queued in the playback jitter buffer (ms) */
+  playbackBufferMs: number;
+  /** Current adaptive jitter buffer target latency (ms) */
+  playbackTargetLatencyMs: number;
+  /** Estimated network jitter of incoming audio (ms) */
+  playbackJitterMs: number;
+  /** Cumulative input tokens by modality, e.g. { AUDIO: 1200, TEXT: 300 } */
+  inputTokens: Record<string, number>;
+  /** Cumulative output tokens by modality */
+  outputTokens: Record<string, number>;
+  /** Cumulative input tokens (promptTokenCount) */
+  totalInputTokens: number;
+  /** Cumulative output tokens (responseTokenCount + thoughtsTokenCount) */
+  totalOutputTokens: number;
+}
+
+/**
+ * Snapshot of GeminiLiveClient state.
+ * A new object is emitted via the `stateChange` event whenever any field changes.
+ */
+export interface GeminiLiveClientState {
+  /** Unified connection state machine */
+  connectionState: ConnectionState;
+  /** Whether the current connection resumed a previous Gemini session (context preserved) */
+  resumed: boolean;
+  /** Current error message, if any */
+  error: string | null;
+  /** Machine-readable code of the current error, if the proxy sent one (e.g. 'too_many_sessions') */
+  errorCode: string | null;
+  /** All transcript entries from the session */
+  transcripts: Transcript[];
+  /** Whether the AI is currently speaking (audio playing) */
+  isSpeaking: boolean;
+  /** Whether microphone input is muted */
+  isMuted: boolean;
+  /** Whether AI audio output is muted */
+  isSpeakerMuted: boolean;
+  /** Selected microphone (null: system default) */
+  audioInputDeviceId: string | null;
+  /** Selected speaker (null: system default) */
+  audioOutputDeviceId: string | null;
+  /** AI's current partial transcript (real-time) */
+  streamingText: string | null;
+  /** User's current partial transcript (real-time) */
+  streamingUserText: string | null;
+  /** Whether the user is currently speaking (VAD) */
+  isUserSpeaking: boolean;
+  /** Whether the push-to-talk button is held (between startTalking and stopTalking) */
+  isTalking: boolean;
+  /** Whether the AI's last response was cut off by the user (until the next response starts) */
+  isInterrupted: boolean;
+  /** Names of the tools the proxy executes server-side (reported on setup) */
+  serverTools: string[];
+  /** Whether session recording is active */
+  isRecording: boolean;
+  /** Current workflow state */
+  workflowExecution: WorkflowExecution | null;
+  /** Latest detected elements */
+  detectedElements: DetectedElement[];
+  /** Detection in progress */
+  isDetecting: boolean;
+}
+
+/**
+ * Events emitted by GeminiLiveClient, keyed by event name
+ */
+export interface GeminiLiveClientEvents {
+  /** Any field of the client state changed */
+  stateChange: (state: GeminiLiveClientState) => void;
+  /** A transcript entry was finalized */
+  transcript: (transcript: Transcript) => void;
+  /** An error occurred */
+  error: (error: string) => void;
+  /** The user talked over the AI and queued playback was flushed */
+  interrupted: () => void;
+  /** Gemini reported token usage for a response */
+  usage: (usage: UsageMetadata) => void;
+  /** Connected to or disconnected from the proxy */
+  connectionChange: (connected: boolean) => void;
+  /**
+   * The AI requested a tool call.
+   * Answer with `client.sendToolResult(call.id, result)`.
+   */
+  toolCall: (call: ToolCall, context: ToolCallContext) => void;
+  /** The proxy executed a server-side tool and answered Gemini itself */
+  serverToolCall: (call: ServerToolCall) => void;
+  /**
+   * The AI sent a browser control command.
+   * Already executed when `browserControl.autoExecute` is set; otherwise
+   * answer with `client.sendBrowserControlResult(command.toolCallId, result)`.
+   */
+  browserControl: (command: BrowserControlCommand) => void;
+  /** The AI sent a UI command */
+  uiCommand: (command: UICommand) => void;
+  /** A session recording event was captured */
+  recordingEvent: (event: SessionEvent) => void;
+  /**
+   * A selected audio device went away (e.g. a headset was unplugged) and the
+   * client fell back to the system default
+   */
+  audioDeviceLost: (kind: AudioDevice['kind'], deviceId: string) => void;
 }
 
 /**
@@ -609,6 +971,12 @@ export interface UseGeminiLiveReturn {
    */
   connectionState: ConnectionState;
 
+  /**
+   * Whether the current connection resumed a previous Gemini session
+   * true after a reconnect that kept the conversation context
+   */
+  resumed: boolean;
+
   /** Whether the AI is currently speaking (audio playing) */
   isSpeaking: boolean;
 
@@ -621,6 +989,12 @@ export interface UseGeminiLiveReturn {
   /** Current error message, if any */
   error: string | null;
 
+  /**
+   * Machine-readable code of the current error, if the proxy sent one
+   * e.g. 'unauthorized', 'too_many_sessions', 'session_time_limit', 'audio_rate_limited'
+   */
+  errorCode: string | null;
+
   /** All transcript entries from the session */
   transcripts: Transcript[];
 
@@ -653,12 +1027,63 @@ export interface UseGeminiLiveReturn {
    */
   sendText: (text: string) => void;
 
+  /**
+   * Send a user turn mixing text, images, PDFs and other files. Rejects if a
+   * part can't be encoded or is over the proxy's size limit.
+   */
+  sendContent: (parts: ContentInput[], options?: SendContentOptions) => Promise<void>;
+
   /** Set microphone muted state */
   setMuted: (muted: boolean) => void;
 
   /** Set speaker muted state (mutes AI audio output) */
   setSpeakerMuted: (muted: boolean) => void;
 
+  /**
+   * Push-to-talk: start a user turn (only with pushToTalk: true)
+   * Interrupts the AI if it is speaking
+   */
+  startTalking: () => void;
+
+  /** Push-to-talk: end the user turn so the AI responds */
+  stopTalking: () => void;
+
+  /** Selected microphone (null: system default) */
+  audioInputDeviceId: string | null;
+
+  /** Selected speaker (null: system default) */
+  audioOutputDeviceId: string | null;
+
+  /**
+   * List microphones and speakers
+   * Labels are empty until the user has granted microphone access
+   */
+  listAudioDevices: () => Promise<AudioDevice[]>;
+
+  /**
+   * Switch the microphone (null: system default) without reconnecting
+   */
+  setInputDevice: (deviceId: string | null) => Promise<void>;
+
+  /**
+   * Switch the speaker (null: system default) without reconnecting
+   * Ignored by browsers without AudioContext.setSinkId
+   */
+  setOutputDevice: (deviceId: string | null) => Promise<void>;
+
+  /**
+   * Subscribe to live input/output levels without re-rendering
+   * (e.g. to draw on a canvas). Metering only runs while someone listens.
+   * @returns Function that removes the listener
+   */
+  subscribeAudioLevels: (
+    listener: (levels: AudioLevels) => void,
+    options?: AudioLevelsOptions
+  ) => () => void;
+
+  /** Latest input/output levels */
+  getAudioLevels: () => AudioLevels;
+
   /** Clear all transcript entries */
   clearTranscripts: () => void;
 
@@ -675,6 +1100,21 @@ export interface UseGeminiLiveReturn {
    */
   isUserSpeaking: boolean;
 
+  /** Whether the push-to-talk button is held (pushToTalk: true) */
+  isTalking: boolean;
+
+  /**
+   * Whether the AI's last response was interrupted by the user (barge-in)
+   * Resets when the next response starts playing
+   */
+  isInterrupted: boolean;
+
+  /**
+   * Names of the tools the proxy executes server-side
+   * These never reach onToolCall
+   */
+  serverTools: string[];
+
   /** Get connection quality metrics */
   getMetrics: () => ConnectionMetrics;
 
@@ -769,63 +1209,13 @@ export interface UseGeminiLiveReturn {
 }
 
 /**
- * Message types sent from the proxy to the client
- * @internal
- */
-export type ProxyMessageType =
-  | 'setup_complete'
-  | 'response'
-  | 'audio'
-  | 'turn_complete'
-  | 'input_transcription'
-  | 'output_transcription'
-  | 'session_handle'
-  | 'error'
-  | 'disconnected'
-  | 'tool_call'
-  | 'tool_result'
-  | 'browser_control';
-
-/**
- * Message from proxy to client
- * @internal
- */
-export interface ProxyMessage {
-  type: ProxyMessageType;
-  text?: string;
-  data?: string;
-  mimeType?: string;
-  message?: string;
-  reason?: string;
-  handle?: string;
-  resumable?: boolean;
-  tool?: string;
-  query?: string;
-  found?: boolean;
-  answer?: string;
-  toolCallId?: string;
-  toolName?: string;
-  args?: Record<string, unknown>;
-  /** Browser control action (for browser_control messages) */
-  action?: BrowserControlAction;
-}
-
-/**
- * Message types sent from client to proxy
+ * Messages exchanged with the proxy (discriminated unions, validated on
+ * receipt). Defined next to the proxy so both sides share one definition.
  * @internal
  */
-export type ClientMessageType = 'frame' | 'audio' | 'text' | 'tool_result' | 'setup_tools' | 'browser_control_result';
-
-/**
- * Message from client to proxy
- * @internal
- */
-export interface ClientMessage {
-  type: ClientMessageType;
-  data?: string;
-  mimeType?: string;
-  text?: string;
-  toolCallId?: string;
-  result?: unknown;
-  tools?: ToolDefinition[];
-}
+export type {
+  ClientMessage,
+  ProxyMessage,
+  SetupMessage,
+  SetupCompleteMessage,
+} from '../../proxy-core/protocol';
@@ -0,0 +1,72 @@
+import { useState, useRef, useEffect } from 'react';
+import { GeminiLiveClient } from './GeminiLiveClient';
+import type { AudioLevels, AudioLevelsOptions, AudioLevelsSource } from './types';
+
+const SILENT_LEVELS: AudioLevels = {
+  input: { rms: 0, peak: 0, frequencies: null },
+  output: { rms: 0, peak: 0, frequencies: null },
+};
+
+/**
+ * Live microphone and AI output levels for meters and visualizers.
+ *
+ * Only the component calling this hook re-renders, at most once per
+ * animation frame - keep it in a small meter component rather than the one
+ * that owns useGeminiLive. To draw on a canvas without re-rendering at all,
+ * use `subscribeAudioLevels()` directly.
+ *
+ * @param source - The useGeminiLive return value or a GeminiLiveClient
+ *
+ * @example
+ * ```tsx
+ * function MicMeter({ live }: { live: UseGeminiLiveReturn }) {
+ *   const { input } = useAudioLevels(live);
+ *   return <div style={{ width: `${Math.min(100, input.rms * 300)}%` }} />;
+ * }
+ * ```
+ */
+export function useAudioLevels(
+  source: AudioLevelsSource | null,
+  options: AudioLevelsOptions = {}
+): AudioLevels {
+  const { frequencies = false } = options;
+  const [levels, setLevels] = useState<AudioLevels>(() => source?.getAudioLevels() ?? SILENT_LEVELS);
+
+  const sourceRef = useRef(source);
+  sourceRef.current = source;
+  // The hook's subscribeAudioLevels is stable per client, but a new return
+  // object arrives every render; client methods are shared by all instances
+  const sourceKey = source instanceof GeminiLiveClient ? source : source?.subscribeAudioLevels;
+
+  useEffect(() => {
+    const current = sourceRef.current;
+    if (!current) {
+      setLevels(SILENT_LEVELS);
+      return;
+    }
+    setLevels(current.getAudioLevels());
+
+    // Coalesce updates from both worklets into one render per frame
+    let frame: number | null = null;
+    let latest = current.getAudioLevels();
+    const unsubscribe = current.subscribeAudioLevels(
+      (next) => {
+        latest = next;
+        if (frame === null) {
+          frame = requestAnimationFrame(() => {
+            frame = null;
+            setLevels(latest);
+          });
+        }
+      },
+      { frequencies }
+    );
+
+    return () => {
+      unsubscribe();
+      if (frame !== null) cancelAnimationFrame(frame);
+    };
+  }, [sourceKey, frequencies]);
+
+  return levels;
+}
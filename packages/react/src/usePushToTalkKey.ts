@@ -0,0 +1,40 @@
+import { useRef, useEffect } from 'react';
+import { bindPushToTalkKey, type PushToTalkKeyOptions, type PushToTalkTarget } from './pushToTalk';
+
+/**
+ * Hold a key to talk (push-to-talk). Needs `pushToTalk: true` in the
+ * useGeminiLive options.
+ *
+ * @param talker - The useGeminiLive return value or a GeminiLiveClient
+ * @param options - Key (default Space) and element to listen on; set
+ *   `enabled: false` to unbind, e.g. while disconnected
+ *
+ * @example
+ * ```tsx
+ * const live = useGeminiLive({ proxyUrl, pushToTalk: true });
+ * usePushToTalkKey(live, { enabled: live.isConnected });
+ *
+ * return <p>{live.isTalking ? 'Listening...' : 'Hold Space to talk'}</p>;
+ * ```
+ */
+export function usePushToTalkKey(
+  talker: PushToTalkTarget,
+  options: PushToTalkKeyOptions & { enabled?: boolean } = {}
+): void {
+  const { code, target, allowInInputs, enabled = true } = options;
+
+  // Listeners call the latest talker without rebinding every render
+  const talkerRef = useRef(talker);
+  talkerRef.current = talker;
+
+  useEffect(() => {
+    if (!enabled) return;
+    return bindPushToTalkKey(
+      {
+        startTalking: () => talkerRef.current.startTalking(),
+        stopTalking: () => talkerRef.current.stopTalking(),
+      },
+      { code, target, allowInInputs }
+    );
+  }, [enabled, code, target, allowInInputs]);
+}